@@ -0,0 +1,138 @@
+/**
+ * 按广告渠道分别构建单文件 HTML（node / bun 运行）
+ *
+ * 用法：
+ *   bun run ./scripts/build-networks.ts [--only mintegral,applovin]
+ *
+ * 每个渠道用 vite/config.prod.mjs 构建一次，输出到 dist/<渠道>/index.html：
+ * 构建时写入 VITE_AD_NETWORK 固定 CTA 适配器（见 src/ad-network），在 <head> 插入渠道 SDK 标签，
+ * 需要 zip 的渠道额外写入渠道文件并打包为 dist/<渠道>/<渠道>.zip。
+ * 默认的 build 命令仍输出 dist/index.html（运行时检测渠道）。
+ */
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { build } from 'vite';
+import type { AdNetworkName } from '../src/ad-network/types';
+import { checkStoreUrls, formatConfigIssue, validateOutputConfig } from '../src/utils/output-config-schema';
+import { injectHeadTags, stripModuleScripts } from './html-postprocess';
+import { createZip } from './zip';
+
+interface NetworkBuild {
+  /** 输出目录 dist/<name> */
+  name: string;
+  /** 构建时固定的 CTA 适配器 */
+  adapter: AdNetworkName;
+  /** 插入 <head> 开头的 SDK 标签 */
+  headTags?: string[];
+  /** 与 index.html 放在一起的渠道文件（JSON） */
+  files?: Record<string, unknown>;
+  /** zip：把 index.html 与 files 打成 <name>.zip 上传 */
+  packaging: 'html' | 'zip';
+  /** CTA 需要 output-config 的 storeUrls（渠道不提供商店地址） */
+  needsStoreUrls?: boolean;
+}
+
+const MRAID_TAG = '<script src="mraid.js"></script>';
+
+export const NETWORK_BUILDS: NetworkBuild[] = [
+  { name: 'ironsource', adapter: 'ironsource', packaging: 'html' },
+  { name: 'facebook', adapter: 'facebook', packaging: 'html' },
+  {
+    name: 'google',
+    adapter: 'google',
+    headTags: ['<script type="text/javascript" src="https://tpc.googlesyndication.com/pagead/gadgets/html5/api/exitapi.js"></script>'],
+    // playable_orientation: 0 横竖屏自适应
+    files: { 'config.json': { playable_orientation: 0 } },
+    packaging: 'zip',
+  },
+  { name: 'mintegral', adapter: 'mintegral', packaging: 'html' },
+  {
+    name: 'tiktok',
+    adapter: 'tiktok',
+    files: { 'config.json': { playable_orientation: 0 } },
+    packaging: 'zip',
+  },
+  { name: 'applovin', adapter: 'mraid', headTags: [MRAID_TAG], packaging: 'html' },
+  { name: 'unity', adapter: 'mraid', headTags: [MRAID_TAG], packaging: 'html', needsStoreUrls: true },
+];
+
+const root = resolve(__dirname, '..');
+const distRoot = join(root, 'dist');
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function selectBuilds(): NetworkBuild[] {
+  const only = readArg('only')?.split(',').map(name => name.trim()).filter(Boolean);
+  if (!only) return NETWORK_BUILDS;
+  const unknown = only.filter(name => !NETWORK_BUILDS.some(item => item.name === name));
+  if (unknown.length) {
+    console.error(`❌ 未知渠道: ${unknown.join(', ')}（可选: ${NETWORK_BUILDS.map(item => item.name).join(', ')}）`);
+    process.exit(1);
+  }
+  return NETWORK_BUILDS.filter(item => only.includes(item.name));
+}
+
+async function buildNetwork(network: NetworkBuild) {
+  const outDir = join(distRoot, network.name);
+  console.log(`\n▶ ${network.name}（适配器 ${network.adapter}）`);
+
+  // Vite 会读取 process.env 中 VITE_ 前缀的变量
+  process.env.VITE_AD_NETWORK = network.adapter;
+  await build({
+    configFile: join(root, 'vite/config.prod.mjs'),
+    build: { outDir, emptyOutDir: true },
+  });
+
+  const htmlPath = join(outDir, 'index.html');
+  if (!existsSync(htmlPath)) {
+    throw new Error(`${network.name}: 构建未生成 index.html`);
+  }
+  const html = injectHeadTags(stripModuleScripts(readFileSync(htmlPath, 'utf-8')), network.headTags ?? []);
+  writeFileSync(htmlPath, html);
+
+  const files = Object.entries(network.files ?? {}).map(([name, content]) => ({ name, data: JSON.stringify(content, null, 2) }));
+  for (const file of files) {
+    writeFileSync(join(outDir, file.name), file.data);
+  }
+  if (network.packaging === 'zip') {
+    writeFileSync(join(outDir, `${network.name}.zip`), createZip([{ name: 'index.html', data: html }, ...files]));
+  }
+
+  for (const file of readdirSync(outDir)) {
+    console.log(`  dist/${network.name}/${file} ${(statSync(join(outDir, file)).size / 1024).toFixed(1)} KB`);
+  }
+}
+
+/** 需要商店地址的渠道在构建前检查 storeUrls，缺少时不出包 */
+function checkStoreUrlsFor(builds: NetworkBuild[]) {
+  const needing = builds.filter(item => item.needsStoreUrls).map(item => item.name);
+  if (!needing.length) return;
+  const raw = JSON.parse(readFileSync(join(root, 'src/game/config/output-config.json'), 'utf-8'));
+  const issues = checkStoreUrls(validateOutputConfig(raw).config);
+  if (issues.length) {
+    console.error(`❌ ${needing.join(', ')} 渠道需要 output-config.json 的 storeUrls：`);
+    for (const issue of issues) {
+      console.error(`  - ${formatConfigIssue(issue)}`);
+    }
+    process.exit(1);
+  }
+}
+
+async function main() {
+  // 构建插件按工作目录解析 src/ 下的路径
+  process.chdir(root);
+  const builds = selectBuilds();
+  checkStoreUrlsFor(builds);
+  for (const network of builds) {
+    await buildNetwork(network);
+  }
+  console.log(`\n✅ ${builds.length} 个渠道包已输出到 dist/`);
+}
+
+main().catch(e => {
+  console.error(`❌ ${(e as Error).message}`);
+  process.exit(1);
+});
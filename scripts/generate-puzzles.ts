@@ -1,33 +1,66 @@
 /**
- * 构建前生成 puzzles-config.json
- * 读取 output-config 的 emptyTubeCount，为难度 1/5/9 各生成一关
+ * 构建前生成 puzzles-config.json（谜题包 CLI，node / bun 离线运行）
+ *
+ * 用法：
+ *   bun run ./scripts/generate-puzzles.ts [--spec <规格文件>] [--out <puzzles-config>] [--report <报告>] [--attempts <次数>]
+ *   bun run ./scripts/generate-puzzles.ts --check   只检查现有 puzzles-config（不重新生成），有问题时退出码为 1；
+ *                                                   指定 --report 时才写报告
+ *
+ * 规格文件格式见 src/utils/puzzle-pack.ts 的 PackSpec，默认 scripts/puzzle-pack.json；
+ * 规格文件不存在时沿用 puzzles-config.json 中现有的关卡列表。
+ * 每关生成后验证可解、评分并剔除重复，关卡未填的规格按 output-config 补齐。
  */
-import { writeFileSync, readFileSync } from 'fs';
+import { existsSync, writeFileSync, readFileSync } from 'fs';
 import { resolve } from 'path';
-import { generatePuzzleWithAdapter } from '../src/utils/puzzle-adapter';
+import { parseLevelList } from '../src/utils/level-list';
+import { buildPuzzlePack, checkPuzzlePack, expandPackSpec, formatPackReport, PackSpec } from '../src/utils/puzzle-pack';
+import { validateOutputConfig } from '../src/utils/output-config-schema';
 
+function readArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const checkOnly = process.argv.includes('--check');
+const specPath = resolve(readArg('spec', resolve(__dirname, 'puzzle-pack.json')));
+const outputPath = resolve(readArg('out', resolve(__dirname, '../src/game/config/puzzles-config.json')));
+const reportPath = resolve(readArg('report', resolve(__dirname, '../src/game/config/puzzles-report.md')));
+const maxAttempts = Number(readArg('attempts', '8'));
 const outputConfigPath = resolve(__dirname, '../src/game/config/output-config.json');
-const outputPath = resolve(__dirname, '../src/game/config/puzzles-config.json');
 
-const outputConfig = JSON.parse(readFileSync(outputConfigPath, 'utf-8'));
-const emptyTubeCount = Math.max(1, Math.min(6, outputConfig.emptyTubeCount ?? 2));
+// 与运行时一致只使用校验通过的配置项（完整检查见 validate-config.ts）
+const { config: outputConfig } = validateOutputConfig(JSON.parse(readFileSync(outputConfigPath, 'utf-8')));
+const existing = existsSync(outputPath) ? JSON.parse(readFileSync(outputPath, 'utf-8')) : {};
 
-const puzzles: Record<string, ReturnType<typeof generatePuzzleWithAdapter> & { difficulty: number; emptyTubeCount: number }> = {};
+let result;
+if (checkOnly) {
+  result = checkPuzzlePack(outputConfig, parseLevelList(existing));
+} else {
+  const spec: PackSpec = existsSync(specPath)
+    ? JSON.parse(readFileSync(specPath, 'utf-8'))
+    : { levels: parseLevelList(existing).map(({ puzzle: _puzzle, ...definition }) => definition) };
+  const { definitions, ratingBands } = expandPackSpec(spec);
+  result = buildPuzzlePack(outputConfig, definitions, ratingBands, { maxAttempts });
+}
 
-for (const d of [1, 5, 9]) {
-  const result = generatePuzzleWithAdapter({ difficulty: d, emptyTubeCount });
-  puzzles[String(d)] = {
-    ...result,
-    difficulty: d,
-    emptyTubeCount,
-  };
+for (const report of result.reports) {
+  const { level } = report;
+  const status = report.errors.length ? `FAILED: ${report.errors.join('; ')}` : report.warnings.join('; ') || 'ok';
+  console.log(`  level ${level.id} (difficulty ${level.difficulty}): ${level.tubeCount}×${level.capacity}${level.hiddenLayers ? `, ${level.hiddenLayers} hidden layers` : ''}, rating ${report.rating ?? '-'}, ${report.solutionLength ?? '-'} moves — ${status}`);
 }
 
-const config = {
-  version: 1,
-  emptyTubeCount,
-  puzzles,
-};
+if (!checkOnly || process.argv.includes('--report')) {
+  writeFileSync(reportPath, formatPackReport(result, checkOnly ? 'puzzles-config 检查报告' : '谜题包生成报告'), 'utf-8');
+}
 
-writeFileSync(outputPath, JSON.stringify(config, null, 2), 'utf-8');
-console.log(`✅ Generated puzzles-config.json (emptyTubeCount=${emptyTubeCount})`);
+if (!result.ok) {
+  console.error(`❌ ${result.reports.filter(r => r.errors.length).length} level(s) failed`);
+  process.exit(1);
+}
+
+if (checkOnly) {
+  console.log(`✅ puzzles-config.json OK (${result.levels.length} levels)`);
+} else {
+  writeFileSync(outputPath, JSON.stringify({ version: 2, levels: result.levels }, null, 2), 'utf-8');
+  console.log(`✅ Generated puzzles-config.json (${result.levels.length} levels), report: ${reportPath}`);
+}
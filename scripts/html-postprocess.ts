@@ -0,0 +1,30 @@
+/**
+ * 单文件 HTML 的构建后处理（remove-script.ts 与 build-networks.ts 共用）
+ */
+
+/**
+ * 去掉 script 的 type="module" 与 crossorigin，内联脚本包进 DOMContentLoaded
+ * （部分渠道的 WebView 不执行 module 脚本）
+ */
+export function stripModuleScripts(html: string): string {
+  html = html.replace("<script><\\/script>", '<script/>');
+
+  return html.replace(/(<script[^>]*?)(\s+type="module")?(\s+crossorigin[^>\s]*)?([^>]*>)([\s\S]*?)(<\/script>)/gi,
+    (_match, openTag, _typeModule, _crossorigin, attrs, content, closeTag) => {
+      // If content is not empty, wrap it with DOMContentLoaded
+      if (content.trim()) {
+        const wrappedContent = `document.addEventListener('DOMContentLoaded', function() {${content}});`;
+        return `${openTag}${attrs}${wrappedContent}${closeTag}`;
+      }
+      return `${openTag}${attrs}${content}${closeTag}`;
+    }
+  );
+}
+
+/**
+ * 在 <head> 开头插入标签（渠道 SDK 需先于游戏脚本加载）
+ */
+export function injectHeadTags(html: string, tags: string[]): string {
+  if (!tags.length) return html;
+  return html.replace(/<head[^>]*>/i, head => `${head}\n${tags.join('\n')}`);
+}
@@ -0,0 +1,37 @@
+/**
+ * 构建前校验 output-config.json（node / bun 离线运行）
+ *
+ * 用法：
+ *   bun run ./scripts/validate-config.ts [<配置文件>] [--require-store-urls]
+ *
+ * 规则见 src/game/config/output-config.schema.json；有任何无效值或未知配置项时逐条列出并以退出码 1 结束，
+ * 避免错误配置被运行时静默忽略后打进包里。
+ * --require-store-urls：web 构建的 CTA 用 storeUrls 跳转商店，缺少时同样失败。
+ */
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { checkStoreUrls, formatConfigIssue, validateOutputConfig } from '../src/utils/output-config-schema';
+
+const args = process.argv.slice(2);
+const requireStoreUrls = args.includes('--require-store-urls');
+const configPath = resolve(args.find(arg => !arg.startsWith('--')) ?? resolve(__dirname, '../src/game/config/output-config.json'));
+
+let raw: unknown;
+try {
+  raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+} catch (e) {
+  console.error(`❌ 无法读取 ${configPath}: ${(e as Error).message}`);
+  process.exit(1);
+}
+
+const { config, issues } = validateOutputConfig(raw);
+if (requireStoreUrls) issues.push(...checkStoreUrls(config));
+if (issues.length) {
+  console.error(`❌ ${configPath} 有 ${issues.length} 处问题：`);
+  for (const issue of issues) {
+    console.error(`  - ${formatConfigIssue(issue)}`);
+  }
+  process.exit(1);
+}
+
+console.log(`✅ output-config.json OK`);
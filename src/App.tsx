@@ -1,8 +1,8 @@
-import { useRef, useEffect, useState } from 'react';
+import { lazy, Suspense, useRef, useEffect, useState } from 'react';
 import { IRefPhaserGame, PhaserGame } from './game/PhaserGame';
 import LevelSelect from './components/LevelSelect';
 import './index.css';
-import { Start } from './viewable-handler';
+import { startAdNetwork } from './ad-network';
 import { EventBus } from './game/EventBus';
 import { getInitialLevelFromURL, setPersistentSelectedLevel, isLevelSelectionReady } from './game/levelSelection';
 import { pregeneratePuzzles } from './utils/puzzleCache';
@@ -11,6 +11,9 @@ import { pregeneratePuzzles } from './utils/puzzleCache';
 import bgV from './assets/bg-v.png';
 import bgH from './assets/bg-h.png';
 
+/** 开发版调参面板（生产构建中整段被移除） */
+const TuningPanel = import.meta.env.DEV ? lazy(() => import('./components/TuningPanel')) : null;
+
 /**
  * 主应用组件
  * 集成Phaser游戏与React UI，无 URL ?level= 时先显示选关界面
@@ -50,16 +53,16 @@ function App() {
         loadBackground();
         window.addEventListener('resize', loadBackground);
 
-        Start();
+        startAdNetwork();
 
         return () => {
             window.removeEventListener('resize', loadBackground);
         };
     }, []);
 
-    const handleSelectLevel = (difficulty: number) => {
-        console.log('[TIMING] 点击选择关卡', { difficulty, t: performance.now(), ts: new Date().toISOString() });
-        setPersistentSelectedLevel(difficulty);
+    const handleSelectLevel = (levelIndex: number) => {
+        console.log('[TIMING] 点击选择关卡', { levelIndex, t: performance.now(), ts: new Date().toISOString() });
+        setPersistentSelectedLevel(levelIndex);
         if (gameReadyRef.current) setLevelSelectVisible(false);
     };
 
@@ -71,6 +74,7 @@ function App() {
         <div id="app" style={{ backgroundImage: `url(${bgImage})`, backgroundSize: 'cover', backgroundPosition: 'center' }}>
             <PhaserGame ref={phaserRef} currentActiveScene={currentScene} />
             {levelSelectVisible && <LevelSelect onSelectLevel={handleSelectLevel} />}
+            {TuningPanel && <Suspense fallback={null}><TuningPanel /></Suspense>}
         </div>
     );
 }
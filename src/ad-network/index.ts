@@ -0,0 +1,92 @@
+/**
+ * 广告渠道适配层
+ * 构建参数 VITE_AD_NETWORK 指定渠道时直接使用该渠道；未指定时按下列顺序检测页面中注入的 SDK，都没有时用 web。
+ * 商店地址来自 output-config.json 的 storeUrls，按 iOS / Android 选择。
+ * 游戏侧只调用这里的 openStore / notifyGameReady / notifyGameEnd，暂停与恢复通过 EventBus 的 pauseAd / showAd 下发。
+ */
+
+import { EventBus } from '../game/EventBus';
+import { getOutputConfigAsync } from '../utils/outputConfigLoader';
+import type { OutputConfig } from '../utils/output-config-schema';
+import { AdNetworkAdapter, AdNetworkName } from './types';
+import { ironSourceAdapter } from './networks/ironsource';
+import { facebookAdapter } from './networks/facebook';
+import { callSdkAdapter } from './networks/callsdk';
+import { googleAdapter } from './networks/google';
+import { mintegralAdapter } from './networks/mintegral';
+import { tiktokAdapter } from './networks/tiktok';
+import { mraidAdapter } from './networks/mraid';
+import { webAdapter } from './networks/web';
+
+export type { AdNetworkAdapter, AdNetworkName } from './types';
+
+/** 检测顺序：渠道专有 SDK 优先，mraid 与 web 兜底 */
+export const AD_NETWORK_ADAPTERS: ReadonlyArray<AdNetworkAdapter> = [
+    ironSourceAdapter,
+    facebookAdapter,
+    callSdkAdapter,
+    googleAdapter,
+    mintegralAdapter,
+    tiktokAdapter,
+    mraidAdapter,
+    webAdapter,
+];
+
+let adapter: AdNetworkAdapter | null = null;
+let storeUrls: OutputConfig['storeUrls'] = undefined;
+let gameReadySent = false;
+let gameEndSent = false;
+
+/**
+ * 当前渠道（首次调用时选定）
+ */
+export function getAdNetwork(): AdNetworkAdapter {
+    if (adapter) return adapter;
+    const forced = import.meta.env?.VITE_AD_NETWORK as AdNetworkName | undefined;
+    const explicit = forced ? AD_NETWORK_ADAPTERS.find(item => item.name === forced) : undefined;
+    if (forced && !explicit) {
+        console.warn(`[adNetwork] 未知的 VITE_AD_NETWORK: ${forced}，改为运行时检测`);
+    }
+    adapter = explicit ?? AD_NETWORK_ADAPTERS.find(item => item.detect()) ?? webAdapter;
+    return adapter;
+}
+
+function isIOS(): boolean {
+    const win = window as Window & { MSStream?: unknown };
+    return /iPad|iPhone|iPod|Macintosh|Mac OS/i.test(navigator.userAgent) && !win.MSStream;
+}
+
+/**
+ * 应用启动时调用：读取商店地址，等待渠道 SDK 就绪后发出 showAd，之后按渠道通知发出 pauseAd / showAd
+ */
+export function startAdNetwork(): void {
+    getOutputConfigAsync()
+        .then(config => { storeUrls = config.storeUrls; })
+        .catch(() => undefined);
+    getAdNetwork().start({
+        pause: () => EventBus.emit('pauseAd'),
+        resume: () => EventBus.emit('showAd'),
+    });
+}
+
+/**
+ * CTA：跳转商店
+ */
+export function openStore(): void {
+    const url = isIOS() ? storeUrls?.ios : storeUrls?.android;
+    getAdNetwork().openStore(url);
+}
+
+/** 游戏可交互时通知渠道（只通知一次） */
+export function notifyGameReady(): void {
+    if (gameReadySent) return;
+    gameReadySent = true;
+    getAdNetwork().gameReady?.();
+}
+
+/** 试玩结束时通知渠道（只通知一次） */
+export function notifyGameEnd(): void {
+    if (gameEndSent) return;
+    gameEndSent = true;
+    getAdNetwork().gameEnd?.();
+}
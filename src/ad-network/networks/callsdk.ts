@@ -0,0 +1,12 @@
+import { AdNetworkAdapter, getAdGlobals } from '../types';
+import { startWithPageVisibility } from './web';
+
+/** 通过 window.callSDK 跳转的渠道 */
+export const callSdkAdapter: AdNetworkAdapter = {
+    name: 'callsdk',
+    detect: () => typeof getAdGlobals().callSDK === 'function',
+    start: startWithPageVisibility,
+    openStore() {
+        getAdGlobals().callSDK?.('download');
+    },
+};
@@ -0,0 +1,12 @@
+import { AdNetworkAdapter, getAdGlobals } from '../types';
+import { startWithPageVisibility } from './web';
+
+/** Facebook / Meta Playable */
+export const facebookAdapter: AdNetworkAdapter = {
+    name: 'facebook',
+    detect: () => !!getAdGlobals().FbPlayableAd,
+    start: startWithPageVisibility,
+    openStore() {
+        getAdGlobals().FbPlayableAd?.onCTAClick();
+    },
+};
@@ -0,0 +1,16 @@
+import { AdNetworkAdapter, getAdGlobals } from '../types';
+import { startWithPageVisibility } from './web';
+
+/**
+ * Google Ads（ExitApi），商店地址在投放后台配置
+ * HTML5 广告只能通过 ExitApi.exit 跳转，没有加载完成 / 试玩结束的上报接口，也不会通知展示与关闭，
+ * 因此不实现 gameReady / gameEnd，暂停与恢复按页面可见性处理
+ */
+export const googleAdapter: AdNetworkAdapter = {
+    name: 'google',
+    detect: () => typeof getAdGlobals().ExitApi?.exit === 'function',
+    start: startWithPageVisibility,
+    openStore() {
+        getAdGlobals().ExitApi?.exit();
+    },
+};
@@ -0,0 +1,26 @@
+import { AdNetworkAdapter, getAdGlobals } from '../types';
+
+/** ironSource（DAPI），AppGrowth 同样使用 DAPI */
+export const ironSourceAdapter: AdNetworkAdapter = {
+    name: 'ironsource',
+    detect: () => !!getAdGlobals().dapi?.openStoreUrl,
+    start(handlers) {
+        const dapi = getAdGlobals().dapi;
+        if (!dapi) {
+            handlers.resume();
+            return;
+        }
+        const onReady = () => {
+            dapi.addEventListener('viewableChange', (event: { isViewable: boolean }) => {
+                if (event.isViewable) handlers.resume();
+                else handlers.pause();
+            });
+            if (dapi.isViewable()) handlers.resume();
+        };
+        if (dapi.isReady()) onReady();
+        else dapi.addEventListener('ready', onReady);
+    },
+    openStore() {
+        getAdGlobals().dapi?.openStoreUrl();
+    },
+};
@@ -0,0 +1,24 @@
+import { AdNetworkAdapter, getAdGlobals } from '../types';
+
+/**
+ * Mintegral：加载完成调用 gameReady，结束时调用 gameEnd，CTA 调用 install；
+ * SDK 在展示 / 关闭试玩时调用页面实现的 gameStart / gameClose
+ */
+export const mintegralAdapter: AdNetworkAdapter = {
+    name: 'mintegral',
+    detect: () => typeof getAdGlobals().install === 'function',
+    start(handlers) {
+        const globals = getAdGlobals();
+        globals.gameStart = handlers.resume;
+        globals.gameClose = handlers.pause;
+    },
+    openStore() {
+        getAdGlobals().install?.();
+    },
+    gameReady() {
+        getAdGlobals().gameReady?.();
+    },
+    gameEnd() {
+        getAdGlobals().gameEnd?.();
+    },
+};
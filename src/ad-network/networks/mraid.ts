@@ -0,0 +1,30 @@
+import { AdNetworkAdapter, getAdGlobals } from '../types';
+
+/**
+ * MRAID（AppLovin、Unity、Vungle 等）：等待 ready，按 viewableChange 暂停 / 恢复
+ * Unity 的 mraid.open 需要传商店地址，其余渠道使用投放后台配置的地址
+ */
+export const mraidAdapter: AdNetworkAdapter = {
+    name: 'mraid',
+    detect: () => typeof getAdGlobals().mraid?.open === 'function',
+    start(handlers) {
+        const mraid = getAdGlobals().mraid;
+        if (!mraid) {
+            handlers.resume();
+            return;
+        }
+        const onReady = () => {
+            mraid.addEventListener('viewableChange', (viewable: boolean) => {
+                if (viewable) handlers.resume();
+                else handlers.pause();
+            });
+            if (mraid.isViewable()) handlers.resume();
+        };
+        if (mraid.getState() === 'loading') mraid.addEventListener('ready', onReady);
+        else onReady();
+    },
+    openStore(storeUrl) {
+        const isUnity = /unity/i.test(getAdGlobals().MRAID_ENV?.sdk ?? '');
+        getAdGlobals().mraid?.open(isUnity ? storeUrl : undefined);
+    },
+};
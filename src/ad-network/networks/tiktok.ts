@@ -0,0 +1,16 @@
+import { AdNetworkAdapter, getAdGlobals } from '../types';
+import { startWithPageVisibility } from './web';
+
+/**
+ * TikTok / Pangle（playableSDK）
+ * playableSDK 只提供 CTA 用的 openAppStore，没有加载完成 / 试玩结束的上报接口，也不会通知展示与关闭，
+ * 因此不实现 gameReady / gameEnd，暂停与恢复按页面可见性处理
+ */
+export const tiktokAdapter: AdNetworkAdapter = {
+    name: 'tiktok',
+    detect: () => typeof getAdGlobals().playableSDK?.openAppStore === 'function',
+    start: startWithPageVisibility,
+    openStore() {
+        getAdGlobals().playableSDK?.openAppStore?.();
+    },
+};
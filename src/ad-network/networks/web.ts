@@ -0,0 +1,24 @@
+import { AdLifecycleHandlers, AdNetworkAdapter } from '../types';
+
+/** 没有渠道 SDK 可用时，按页面可见性暂停 / 恢复 */
+export function startWithPageVisibility(handlers: AdLifecycleHandlers): void {
+    document.addEventListener('visibilitychange', () => {
+        if (document.hidden) handlers.pause();
+        else handlers.resume();
+    });
+    handlers.resume();
+}
+
+/** 本地预览与未识别的渠道：新窗口打开商店 */
+export const webAdapter: AdNetworkAdapter = {
+    name: 'web',
+    detect: () => true,
+    start: startWithPageVisibility,
+    openStore(storeUrl) {
+        if (storeUrl) {
+            window.open(storeUrl);
+        } else {
+            console.warn('[adNetwork] output-config 未配置 storeUrls，无法跳转商店');
+        }
+    },
+};
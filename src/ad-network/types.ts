@@ -0,0 +1,73 @@
+/**
+ * 广告渠道适配器接口
+ * 每个渠道一个实现（networks/ 目录），由 index.ts 按构建参数 VITE_AD_NETWORK 或运行时检测选择
+ */
+
+/** 渠道标识，即构建参数 VITE_AD_NETWORK 的取值 */
+export type AdNetworkName =
+    | 'ironsource'
+    | 'facebook'
+    | 'callsdk'
+    | 'google'
+    | 'mintegral'
+    | 'tiktok'
+    | 'mraid'
+    | 'web';
+
+/** 渠道的暂停 / 恢复回调（可见性变化、渠道主动暂停等） */
+export interface AdLifecycleHandlers {
+    pause: () => void;
+    resume: () => void;
+}
+
+export interface AdNetworkAdapter {
+    readonly name: AdNetworkName;
+    /** 运行时检测：页面中是否注入了该渠道的 SDK */
+    detect(): boolean;
+    /** 等待 SDK 就绪并接入暂停 / 恢复，就绪且可见后调用 handlers.resume 开始展示 */
+    start(handlers: AdLifecycleHandlers): void;
+    /** CTA：跳转商店；storeUrl 为按平台选出的 output-config storeUrls，渠道自带商店地址时可忽略 */
+    openStore(storeUrl: string | undefined): void;
+    /** 游戏加载完成、可以交互 */
+    gameReady?(): void;
+    /** 试玩结束（没有下一关的通关、无法继续的死局或 CTA 结束页；可重试或进入下一关时不算） */
+    gameEnd?(): void;
+}
+
+/** MRAID 2.0 中用到的部分 */
+export interface Mraid {
+    getState(): string;
+    addEventListener(event: string, handler: (...args: never[]) => void): void;
+    isViewable(): boolean;
+    open(url?: string): void;
+}
+
+/** ironSource DAPI 中用到的部分 */
+export interface Dapi {
+    isReady(): boolean;
+    isViewable(): boolean;
+    addEventListener(event: string, handler: (...args: never[]) => void): void;
+    openStoreUrl(): void;
+}
+
+/** 各渠道注入到 window 上的 SDK（均可能不存在） */
+export interface AdNetworkGlobals {
+    dapi?: Dapi;
+    FbPlayableAd?: { onCTAClick(): void };
+    callSDK?: (action: string) => void;
+    ExitApi?: { exit(): void };
+    /** Mintegral：跳转商店 / 加载完成 / 试玩结束 */
+    install?: () => void;
+    gameReady?: () => void;
+    gameEnd?: () => void;
+    /** Mintegral：由试玩实现、SDK 在展示 / 关闭时调用 */
+    gameStart?: () => void;
+    gameClose?: () => void;
+    playableSDK?: { openAppStore?(): void };
+    mraid?: Mraid;
+    MRAID_ENV?: { sdk?: string };
+}
+
+export function getAdGlobals(): AdNetworkGlobals {
+    return window as unknown as AdNetworkGlobals;
+}
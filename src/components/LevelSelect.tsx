@@ -5,9 +5,11 @@ import hand from '../assets/手.png';
 import chooseImg from '../assets/choose.png';
 import playNowImg from '../assets/play-now.png';
 import download from '../game/scenes/constants/download';
+import { getLevelDefinitions } from '../utils/level-list';
 
 export interface LevelSelectProps {
-  onSelectLevel: (level: number) => void;
+  /** 传入关卡序号（从 0 开始） */
+  onSelectLevel: (levelIndex: number) => void;
 }
 
 interface HandState {
@@ -27,17 +29,21 @@ const HAND_CONFIG = {
 /** logo 缩放倍数：>1 放大，<1 缩小，容器框大小不变 */
 const LOGO_SCALE = 1.08;
 
-/** 与 dof 竖版选关页面一致，3 个假关卡对应难度 1/5/9 */
+/** 每行最多卡片数，超过后换行并按行数缩小卡片 */
+const CARDS_PER_ROW = 3;
+
+/** 与 dof 竖版选关页面一致，卡片按 puzzles-config.json 的关卡列表生成 */
 const LevelSelect: React.FC<LevelSelectProps> = ({ onSelectLevel }) => {
   const levels = useMemo(
-    () => [
-      { id: 1, image: icon, difficulty: 1 },
-      { id: 2, image: icon, difficulty: 5 },
-      { id: 3, image: icon, difficulty: 9 }
-    ],
+    () => getLevelDefinitions().map((level, index) => ({
+      id: level.id,
+      name: level.name ?? String(index + 1),
+      image: icon
+    })),
     []
   );
   const levelCount = levels.length;
+  const rowCount = Math.ceil(levelCount / CARDS_PER_ROW);
 
   const levelRefs = useRef<Array<HTMLDivElement | null>>([]);
   const gridRef = useRef<HTMLDivElement | null>(null);
@@ -183,7 +189,11 @@ const LevelSelect: React.FC<LevelSelectProps> = ({ onSelectLevel }) => {
             </div>
           </div>
 
-          <div className="level-select-grid" ref={gridRef}>
+          <div
+            className="level-select-grid"
+            ref={gridRef}
+            style={{ ['--level-rows' as string]: String(rowCount) }}
+          >
             {levels.map((level, index) => {
               const cardClassName = [
                 'level-card',
@@ -202,14 +212,15 @@ const LevelSelect: React.FC<LevelSelectProps> = ({ onSelectLevel }) => {
                   ref={el => {
                     levelRefs.current[index] = el;
                   }}
-                  onClick={() => onSelectLevel(level.difficulty)}
+                  onClick={() => onSelectLevel(index)}
                 >
                   <div className="level-image-wrapper">
                     <img
                       src={level.image}
-                      alt={`Level ${level.id}`}
+                      alt={`Level ${level.name}`}
                       className="level-image placeholder-img"
                     />
+                    <span className="level-name">{level.name}</span>
                   </div>
                 </div>
               );
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import './TuningPanel.css';
+import { EventBus } from '../game/EventBus';
+import { BallColor, BALL_COLORS, DEFAULT_TUNING, TUNING, TuningKey } from '../game/constants/GameConstants';
+import { getLiquidColors, getOutputConfigAsync, setLiquidColor } from '../utils/outputConfigLoader';
+
+type LiquidColors = { [key in BallColor]: number };
+
+interface Snapshot {
+  tuning: { [key in TuningKey]: number };
+  colors: LiquidColors;
+}
+
+/** 各调参项的滑块范围：[最小值, 最大值, 步长] */
+const TUNING_RANGES: { [key in TuningKey]: [number, number, number] } = {
+  LIQUID_BALL_DISPLAY_WIDTH_RATIO: [0.2, 3, 0.05],
+  LIQUID_BALL_SIZE_SCALE: [0.2, 3, 0.05],
+  BALL_EXPRESSION_OFFSET_X: [-60, 60, 1],
+  BALL_EXPRESSION_OFFSET_Y: [-60, 60, 1],
+  BALL_EXPRESSION_SCALE_RATIO: [0.2, 3, 0.05],
+  SPLASH_TUBE_WIDTH_RATIO: [0.2, 3, 0.05],
+  SPLASH_VERTICAL_OFFSET_RATIO: [-1, 1, 0.05],
+  SPLASH_FRAME_RATE: [1, 120, 1],
+  LIQUID_UP_FRAME_RATE: [1, 120, 1],
+  BALL_RISE_DURATION: [0, 1000, 5],
+  BALL_DROP_DURATION: [0, 1000, 5],
+  BALL_MOVE_RISE_ALREADY_HOVER: [0, 500, 1],
+  BALL_MOVE_RISE_NORMAL: [0, 1000, 5],
+  BALL_MOVE_ARC_TIME: [0, 1000, 5],
+  BALL_MOVE_START_DELAY: [0, 500, 5],
+  WATER_RISE_DURATION: [0, 1000, 5]
+};
+
+const TUNING_KEYS = Object.keys(DEFAULT_TUNING) as TuningKey[];
+
+function toHexInput(value: number): string {
+  return `#${value.toString(16).padStart(6, '0')}`;
+}
+
+/** 与 output-config.json 中的写法一致："0xRRGGBB" */
+function toConfigColor(value: number): string {
+  return `0x${value.toString(16).padStart(6, '0').toUpperCase()}`;
+}
+
+function takeSnapshot(): Snapshot {
+  return { tuning: { ...TUNING }, colors: { ...getLiquidColors() } };
+}
+
+/**
+ * 与加载时的配置比较，只导出改动过的项，可直接合并进 output-config.json
+ */
+function buildConfigPatch(baseline: Snapshot, current: Snapshot): Record<string, Record<string, number | string>> {
+  const tuning: Record<string, number> = {};
+  for (const key of TUNING_KEYS) {
+    if (current.tuning[key] !== baseline.tuning[key]) tuning[key] = current.tuning[key];
+  }
+  const liquidColors: Record<string, string> = {};
+  for (const color of BALL_COLORS) {
+    if (current.colors[color] !== baseline.colors[color]) liquidColors[color] = toConfigColor(current.colors[color]);
+  }
+  const patch: Record<string, Record<string, number | string>> = {};
+  if (Object.keys(tuning).length) patch.tuning = tuning;
+  if (Object.keys(liquidColors).length) patch.liquidColors = liquidColors;
+  return patch;
+}
+
+/**
+ * 开发版调参面板：实时修改动画时长、帧率、尺寸与液体颜色，导出为 output-config 补丁
+ * 修改后发出 tuning-changed，Board 重绘液体、Game 更新帧动画；时长类参数对下一次动画生效
+ */
+const TuningPanel: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [baseline, setBaseline] = useState<Snapshot | null>(null);
+  const [current, setCurrent] = useState<Snapshot>(takeSnapshot);
+  const [patchText, setPatchText] = useState('');
+
+  // 配置加载（并应用 tuning / liquidColors）后再记录基准，导出时与之比较
+  useEffect(() => {
+    getOutputConfigAsync().then(() => {
+      const snapshot = takeSnapshot();
+      setBaseline(snapshot);
+      setCurrent(snapshot);
+    });
+  }, []);
+
+  const apply = (next: Snapshot) => {
+    Object.assign(TUNING, next.tuning);
+    for (const color of BALL_COLORS) {
+      setLiquidColor(color, next.colors[color]);
+    }
+    setCurrent(next);
+    setPatchText('');
+    EventBus.emit('tuning-changed');
+  };
+
+  const updateTuning = (key: TuningKey, value: number) => {
+    if (!Number.isFinite(value)) return;
+    apply({ ...current, tuning: { ...current.tuning, [key]: value } });
+  };
+
+  const updateColor = (color: BallColor, hex: string) => {
+    apply({ ...current, colors: { ...current.colors, [color]: parseInt(hex.slice(1), 16) } });
+  };
+
+  const exportPatch = () => {
+    if (!baseline) return;
+    const text = JSON.stringify(buildConfigPatch(baseline, current), null, 4);
+    setPatchText(text);
+    navigator.clipboard?.writeText(text).catch(() => undefined);
+  };
+
+  if (!open) {
+    return (
+      <button className="tuning-toggle" onClick={() => setOpen(true)}>
+        调参
+      </button>
+    );
+  }
+
+  return (
+    <div className="tuning-panel">
+      <div className="tuning-header">
+        <span>调参面板（仅开发版）</span>
+        <button onClick={() => setOpen(false)}>×</button>
+      </div>
+
+      <div className="tuning-section-title">动画 / 尺寸</div>
+      {TUNING_KEYS.map(key => {
+        const [min, max, step] = TUNING_RANGES[key];
+        const changed = baseline !== null && current.tuning[key] !== baseline.tuning[key];
+        return (
+          <label key={key} className={`tuning-row${changed ? ' changed' : ''}`}>
+            <span className="tuning-label" title={key}>{key}</span>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={current.tuning[key]}
+              onChange={e => updateTuning(key, Number(e.target.value))}
+            />
+            <input
+              type="number"
+              step={step}
+              value={current.tuning[key]}
+              onChange={e => updateTuning(key, Number(e.target.value))}
+            />
+          </label>
+        );
+      })}
+
+      <div className="tuning-section-title">液体颜色</div>
+      <div className="tuning-colors">
+        {BALL_COLORS.map(color => (
+          <label key={color} className="tuning-color" title={color}>
+            <input
+              type="color"
+              value={toHexInput(current.colors[color])}
+              onChange={e => updateColor(color, e.target.value)}
+            />
+            <span>{color}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="tuning-actions">
+        <button onClick={() => baseline && apply(baseline)} disabled={!baseline}>重置</button>
+        <button onClick={exportPatch} disabled={!baseline}>导出 output-config 补丁</button>
+      </div>
+      {patchText && (
+        <textarea className="tuning-patch" readOnly value={patchText} onFocus={e => e.target.select()} />
+      )}
+    </div>
+  );
+};
+
+export default TuningPanel;
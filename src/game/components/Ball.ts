@@ -1,5 +1,5 @@
 import { Scene } from 'phaser';
-import { BallColor, GAME_CONFIG, LIQUID_BALL_DISPLAY_WIDTH_RATIO, LIQUID_BALL_SIZE_SCALE, BALL_EXPRESSION_OFFSET_X, BALL_EXPRESSION_OFFSET_Y, BALL_EXPRESSION_SCALE_RATIO } from '../constants/GameConstants';
+import { BallColor, GAME_CONFIG, TUNING } from '../constants/GameConstants';
 import { getLiquidColors } from '../../utils/outputConfigLoader';
 
 export class Ball extends Phaser.GameObjects.Container {
@@ -22,6 +22,8 @@ export class Ball extends Phaser.GameObjects.Container {
     private containerHoverTween: Phaser.Tweens.Tween | null = null;
     public color: BallColor;
     public isCandle: boolean = false;
+    /** 神秘层：颜色未揭开，试管内绘制为「?」 */
+    public isHidden: boolean = false;
     private baseSize: number = GAME_CONFIG.BALL_SIZE; // 基准尺寸
 
     constructor(scene: Scene, x: number, y: number, color: BallColor) {
@@ -96,7 +98,7 @@ export class Ball extends Phaser.GameObjects.Container {
             : configW;
 
         const frameW = this.liquidSprite.width || 129;
-        const targetW = w * LIQUID_BALL_DISPLAY_WIDTH_RATIO * LIQUID_BALL_SIZE_SCALE;
+        const targetW = w * TUNING.LIQUID_BALL_DISPLAY_WIDTH_RATIO * TUNING.LIQUID_BALL_SIZE_SCALE;
         const ballScale = Math.max(0.01, this.scaleX);
         const scale = (targetW / frameW) / ballScale;
         this.liquidSprite.setScale(scale);
@@ -113,13 +115,14 @@ export class Ball extends Phaser.GameObjects.Container {
     private showBallExpression(tubeDisplayWidth?: number): void {
         if (!this.scene.textures.exists('圆球表情_00000')) return;
         if (!this.ballExpressionSprite) {
-            this.ballExpressionSprite = this.scene.add.sprite(BALL_EXPRESSION_OFFSET_X, BALL_EXPRESSION_OFFSET_Y, '圆球表情_00000');
+            this.ballExpressionSprite = this.scene.add.sprite(TUNING.BALL_EXPRESSION_OFFSET_X, TUNING.BALL_EXPRESSION_OFFSET_Y, '圆球表情_00000');
             this.ballExpressionSprite.setOrigin(0.5, 0.5);
             this.add(this.ballExpressionSprite);
             if (this.scene.anims.exists('ball_expression')) {
                 this.ballExpressionSprite.play('ball_expression');
             }
         }
+        this.ballExpressionSprite.setPosition(TUNING.BALL_EXPRESSION_OFFSET_X, TUNING.BALL_EXPRESSION_OFFSET_Y);
         this.ballExpressionSprite.setVisible(true);
         this.updateBallExpressionScale(tubeDisplayWidth);
     }
@@ -145,10 +148,10 @@ export class Ball extends Phaser.GameObjects.Container {
         const w = (tubeDisplayWidth != null && tubeDisplayWidth > 0)
             ? Math.max(tubeDisplayWidth, configW)
             : configW;
-        const targetW = w * LIQUID_BALL_DISPLAY_WIDTH_RATIO * LIQUID_BALL_SIZE_SCALE * BALL_EXPRESSION_SCALE_RATIO;
+        const targetW = w * TUNING.LIQUID_BALL_DISPLAY_WIDTH_RATIO * TUNING.LIQUID_BALL_SIZE_SCALE * TUNING.BALL_EXPRESSION_SCALE_RATIO;
         const ballScale = Math.max(0.01, this.scaleX);
         const frameW = this.ballExpressionSprite.width || 1;
-        const scale = frameW > 0 ? (targetW / frameW) / ballScale : BALL_EXPRESSION_SCALE_RATIO / ballScale;
+        const scale = frameW > 0 ? (targetW / frameW) / ballScale : TUNING.BALL_EXPRESSION_SCALE_RATIO / ballScale;
         this.ballExpressionSprite.setScale(scale);
     }
 
@@ -1,24 +1,35 @@
 import { Scene } from 'phaser';
 import { Tube } from './Tube';
 import { Ball } from './Ball';
-import { GAME_CONFIG, BALL_COLORS, BallColor, BALL_RISE_DURATION, BALL_DROP_DURATION, BALL_MOVE_RISE_ALREADY_HOVER, BALL_MOVE_RISE_NORMAL, BALL_MOVE_ARC_TIME, BALL_MOVE_START_DELAY } from '../constants/GameConstants';
+import { GAME_CONFIG, BALL_COLORS, BallColor, TUNING } from '../constants/GameConstants';
 import { EventBus } from '../EventBus';
-import { getOutputConfigValueAsync } from '../../utils/outputConfigLoader';
+import { getLevelShapeAsync, getOutputConfigAsync } from '../../utils/outputConfigLoader';
 import { generatePuzzleWithAdapter, validatePuzzle, PuzzleAdapterResult } from '../../utils/puzzle-adapter';
+import { BoardState, DEFAULT_POUR_RULES, normalizePourRules, PourMove, PourRules } from '../../utils/board-state';
+import { solveState, SolveStatus } from '../../utils/puzzle-solver';
+import { findHint, probeReveal } from '../../utils/puzzle-hint';
+import { isSupportedMoveLogVersion, MoveLog, MoveLogStep, MoveRecorder, readMoveLogSteps } from '../../utils/move-recorder';
 import { isPerfEnabled, recordDrawLiquid } from '../../utils/perfLogger';
+import { BoardLayout, computeBoardLayout } from '../utils/BoardLayout';
 
 /**
- * 表示一个可能的移动
+ * history-changed 事件携带的撤销/重做状态
  */
-interface Move {
-    source: Tube;
-    target: Tube;
-    ballCount: number;  // 可移动的球数
-    score: number;      // 移动的评分
+export interface BoardHistoryState {
+    canUndo: boolean;
+    canRedo: boolean;
+    /** 撤销栈中的步数 */
+    moveCount: number;
 }
 
 export class Board extends Phaser.GameObjects.Container {
     private tubes: Tube[] = [];
+    /** 试管容量（由关卡决定，默认 GAME_CONFIG.TUBE_CAPACITY） */
+    private capacity: number = GAME_CONFIG.TUBE_CAPACITY;
+    /** 最近一次 handleResize 计算的布局 */
+    private layout: BoardLayout | null = null;
+    /** 纯逻辑棋盘状态：规则判定以它为准，试管/球只负责表现 */
+    private boardState: BoardState = new BoardState([]);
     private selectedTube: Tube | null = null;
     /** 合并绘制：所有试管液体使用同一个 Graphics，减少 draw call */
     private boardLiquidGraphics: Phaser.GameObjects.Graphics | null = null;
@@ -31,42 +42,79 @@ export class Board extends Phaser.GameObjects.Container {
     private handMoveTween: Phaser.Tweens.Tween | null = null;
     private handBaseY: number = 0; // 手指的基准Y位置（用于点击动画）
     private isGameActive: boolean = false;
+    private gameOverSent: boolean = false;
     private idleTimer: number = 0;
     private static readonly IDLE_HINT_DELAY = 5000; // 5秒无操作后显示引导
     private static readonly FADE_DURATION = 200; // 淡入淡出时长
+    private static readonly UNWINNABLE_CHECK_BUDGET = 3000; // 无解检测的求解器节点预算
+    private static readonly MAX_TUBE_COUNT = 24; // 加管道具的试管数上限（与关卡规格上限一致）
+    private static readonly ADD_TUBE_DURATION = 400; // 新试管淡入时长
+    /** 已检测过的局面 → 求解结果（按规范化键缓存，来回倒同一批球时不重复搜索） */
+    private solvabilityCache: Map<string, SolveStatus> = new Map();
     
     // 引导系统状态
     private hintSourceTube: Tube | null = null;  // 引导的源试管
     private hintTargetTube: Tube | null = null;  // 引导的目标试管
+    /** 上次求得的获胜路线及其对应的布局，玩家照着走时无需重新求解 */
+    private hintLine: PourMove[] = [];
+    private hintLineLayout: string = '';
+    private static readonly HINT_SOLVER_BUDGET = 5000; // 提示求最短解的节点预算
+
+    // 自动演示（attract 模式）：手指沿获胜路线演示到胜利前一步，真实点击即停止并倒回开局
+    private autoplayActive: boolean = false;
+    private autoplayTimer: Phaser.Time.TimerEvent | null = null;
+    /** 演示做出、尚未倒回的移动（不进入撤销历史、移动记录与 CTA 计数） */
+    private autoplayMoves: PourMove[] = [];
+    private static readonly AUTOPLAY_RESTORE_DELAY = 150; // 倒回开局时每步的间隔
+    private static readonly AUTOPLAY_START_DELAY = 1500; // 开局后开始演示的延迟
+    private static readonly AUTOPLAY_STEP_DELAY = 700; // 手指在源/目标试管上停留的时长
+
+    // 移动记录与回放
+    private moveRecorder: MoveRecorder | null = null;
+    private isReplaying: boolean = false;
+    private hasFailed: boolean = false; // 关卡失败（步数/时间用尽）后不再接受撤销、重做与加管
+    private replayTimer: Phaser.Time.TimerEvent | null = null;
+    private replayStartTime: number = 0;
     private hintStep: 'none' | 'source' | 'target' = 'none'; // 引导步骤
     
+    // 移动历史（撤销/重做）
+    private undoStack: PourMove[] = [];
+    private redoStack: PourMove[] = [];
+    private pendingRescueUndos: number = 0;  // 救援中剩余需要连续撤销的步数
+    
     // 计数器
     private jumpStepCount: number = 0;      // 跳转步数计数器
     private completedTubeCount: number = 0;  // 完成试管数计数器
+    private mergeCount: number = 0;  // 同色合并计数器（倒在同色液体上）
     
     // 难度配置
     private difficulty: number = 10;  // 默认最高难度
     private emptyTubeCount: number = 2;  // 空管数量，默认2
+    private hiddenLayers: number = 0;  // 每个试管隐藏的神秘层数，默认不隐藏
+    private pourRules: PourRules = DEFAULT_POUR_RULES;  // 倒入规则，默认经典规则
 
     constructor(scene: Scene, preGeneratedPuzzle?: PuzzleAdapterResult, preDifficulty?: number, preEmptyTubeCount?: number) {
         super(scene, 0, 0);
 
         this.createSharedLiquidGraphics();
-        this.createTubes();
         
         // 如果 Preloader 阶段已生成谜题，直接使用；否则异步加载难度配置后生成
         if (preGeneratedPuzzle && preDifficulty !== undefined && preEmptyTubeCount !== undefined) {
+            // 试管数与容量由谜题决定
+            this.createTubes(preGeneratedPuzzle.tubes.length, preGeneratedPuzzle.capacity ?? GAME_CONFIG.TUBE_CAPACITY);
             // 设置难度配置
             this.difficulty = preDifficulty;
             this.emptyTubeCount = preEmptyTubeCount;
             // 使用 Preloader 阶段生成的谜题，立即初始化球（避免重复生成）
             this.initializeBallsWithPuzzle(preGeneratedPuzzle);
         } else {
-            // 兼容旧逻辑：如果没有传入谜题，则异步加载配置后生成
+            // 兼容旧逻辑：如果没有传入谜题，先按默认规格建管，异步加载配置后生成
+            this.createTubes(GAME_CONFIG.TUBE_COUNT, GAME_CONFIG.TUBE_CAPACITY);
             this.loadDifficultyAndInitialize();
         }
         
         this.createHand();
+        this.initAutoplay();
         
         // 监听窗口大小变化
         scene.scale.on('resize', this.handleResize, this);
@@ -77,6 +125,20 @@ export class Board extends Phaser.GameObjects.Container {
         
         // 监听试管完成事件
         EventBus.on('tube-complete-internal', this.onTubeCompleteInternal, this);
+
+        // 撤销/重做：React 或 Phaser 按钮通过 EventBus 调用
+        EventBus.on('board-undo', this.undo, this);
+        EventBus.on('board-redo', this.redo, this);
+        // 开发版调参面板修改颜色后重绘液体
+        EventBus.on('tuning-changed', this.requestLiquidRedraw, this);
+        this.once(Phaser.GameObjects.Events.DESTROY, () => {
+            scene.scale.off('resize', this.handleResize, this);
+            scene.events.off('update', this.update, this);
+            EventBus.off('tube-complete-internal', this.onTubeCompleteInternal, this);
+            EventBus.off('board-undo', this.undo, this);
+            EventBus.off('board-redo', this.redo, this);
+            EventBus.off('tuning-changed', this.requestLiquidRedraw, this);
+        });
         
         scene.add.existing(this);
         this.isGameActive = true;
@@ -102,16 +164,27 @@ export class Board extends Phaser.GameObjects.Container {
         this.add(this.boardLiquidGraphics);
     }
 
-    private createTubes() {
-        const requestRedraw = () => this.requestLiquidRedraw();
-        for (let i = 0; i < GAME_CONFIG.TUBE_COUNT; i++) {
-            const tube = new Tube(this.scene, 0, 0, i, requestRedraw);
-            tube.on('pointerdown', () => this.handleTubeClick(tube));
-            this.add(tube);
-            this.tubes.push(tube);
+    /**
+     * 按关卡规格创建试管（已有试管时先销毁，用于异步加载到不同规格的关卡）
+     */
+    private createTubes(tubeCount: number, capacity: number) {
+        this.tubes.forEach(tube => tube.destroy());
+        this.tubes = [];
+        this.capacity = capacity;
+
+        for (let i = 0; i < tubeCount; i++) {
+            this.createTube(i);
         }
     }
 
+    private createTube(index: number): Tube {
+        const tube = new Tube(this.scene, 0, 0, index, () => this.requestLiquidRedraw(), this.capacity);
+        tube.on('pointerdown', () => this.handleTubeClick(tube));
+        this.add(tube);
+        this.tubes.push(tube);
+        return tube;
+    }
+
     private requestLiquidRedraw() {
         if (this._liquidRedrawScheduled) return;
         this._liquidRedrawScheduled = true;
@@ -135,20 +208,12 @@ export class Board extends Phaser.GameObjects.Container {
     private updateBoardLiquidMask() {
         if (!this.boardLiquidMaskGraphics) return;
         this.boardLiquidMaskGraphics.clear();
-        const config = this.scene.scale.height > this.scene.scale.width ? GAME_CONFIG.PORTRAIT : GAME_CONFIG.LANDSCAPE;
-        const radius = (config.TUBE_WIDTH - 4) / 2;
-        const maskWidth = config.TUBE_WIDTH - 4;
-        const maskHeight = config.TUBE_HEIGHT - 4;
-        const totalWidth = (GAME_CONFIG.TUBE_COLS - 1) * config.COL_OFFSET_X;
-        const totalHeight = (GAME_CONFIG.TUBE_ROWS - 1) * config.ROW_SPACING_Y;
-        const startX = (this.scene.scale.width - totalWidth) / 2;
-        const startY = (this.scene.scale.height - totalHeight) / 2;
+        const layout = this.layout ?? this.computeLayout(this.scene.scale.width, this.scene.scale.height);
+        const radius = (layout.tubeWidth - 4) / 2;
+        const maskWidth = layout.tubeWidth - 4;
+        const maskHeight = layout.tubeHeight - 4;
         this.boardLiquidMaskGraphics.fillStyle(0xffffff);
-        this.tubes.forEach((tube, index) => {
-            const row = Math.floor(index / GAME_CONFIG.TUBE_COLS);
-            const col = index % GAME_CONFIG.TUBE_COLS;
-            const tx = startX + col * config.COL_OFFSET_X;
-            const ty = startY + row * config.ROW_SPACING_Y;
+        layout.positions.forEach(({ x: tx, y: ty }) => {
             this.boardLiquidMaskGraphics!.fillRoundedRect(
                 tx - maskWidth / 2, ty - maskHeight / 2,
                 maskWidth, maskHeight,
@@ -170,11 +235,19 @@ export class Board extends Phaser.GameObjects.Container {
      */
     private async loadDifficultyAndInitialize() {
         try {
-            const difficulty = await getOutputConfigValueAsync<number>('difficulty', 10);
-            this.difficulty = Math.max(1, Math.min(10, difficulty)); // 限制在1-10之间
-            
-            const emptyTubeCount = await getOutputConfigValueAsync<number>('emptyTubeCount', 2);
-            this.emptyTubeCount = Math.max(1, Math.min(6, emptyTubeCount)); // 限制在1-6之间
+            // 取值范围由 output-config.schema.json 校验，越界值已被剔除
+            const config = await getOutputConfigAsync();
+            this.difficulty = config.difficulty ?? 10;
+            this.emptyTubeCount = config.emptyTubeCount ?? 2;
+
+            // 关卡规格与默认不同时重建试管（调试布局固定使用默认规格）
+            const shape = await getLevelShapeAsync(this.difficulty);
+            this.hiddenLayers = shape.hiddenLayers;
+            this.pourRules = shape.pourRules;
+            if (!this.isDebugMode() && (shape.tubeCount !== this.tubes.length || shape.capacity !== this.capacity)) {
+                this.createTubes(shape.tubeCount, shape.capacity);
+                this.handleResize(this.scene.scale.gameSize);
+            }
         } catch (e) {
             console.warn('[Board] 加载配置失败，使用默认值');
             this.difficulty = 10;
@@ -204,7 +277,7 @@ export class Board extends Phaser.GameObjects.Container {
      * 根据难度生成颜色和每种颜色的球数分配
      *
      * 策略：
-     * - 总共需要填满12个试管（96个球）
+     * - 需要填满（试管数 - 空管数）个试管，默认 12 管（96个球）
      * - 颜色数 = difficulty + 2 (3-12种)
      * - 每种颜色的球数必须是8的倍数
      *
@@ -217,8 +290,8 @@ export class Board extends Phaser.GameObjects.Container {
      */
     private generateColorDistribution(): { color: BallColor; count: number }[] {
         const numColors = this.getColorCountByDifficulty();
-        const totalTubes = 12; // 需要填满的试管数
-        const ballsPerTube = GAME_CONFIG.TUBE_CAPACITY; // 8
+        const totalTubes = this.tubes.length - this.emptyTubeCount; // 需要填满的试管数
+        const ballsPerTube = this.capacity;
         
         // 计算每种颜色的基础管数和额外管
         const tubesPerColor = Math.floor(totalTubes / numColors);
@@ -252,18 +325,23 @@ export class Board extends Phaser.GameObjects.Container {
         const tubeContents = result.tubes;
         
         // 验证生成的谜题（传入配置的空试管数以正确校验）
-        const validation = validatePuzzle(tubeContents, this.emptyTubeCount);
+        const validation = validatePuzzle(tubeContents, this.emptyTubeCount, this.capacity, this.tubes.length);
         if (!validation.valid && import.meta.env.DEV) {
             console.error('[Board] 谜题验证失败:', validation.errors);
         }
 
-        // 根据生成的状态创建实际的球
+        this.pourRules = result.pourRules ?? DEFAULT_POUR_RULES;
+        this.boardState = new BoardState(tubeContents, this.capacity, result.hidden, this.pourRules);
+        this.moveRecorder = new MoveRecorder(tubeContents, result.seedUsed, this.capacity, this.boardState.getHiddenMask(), this.pourRules);
+
+        // 根据生成的状态创建实际的球（神秘层以逻辑状态为准：顶部总是揭开）
         // 优化：先批量添加所有球（跳过绘制），最后统一绘制，减少96次drawLiquid调用
         for (let i = 0; i < tubeContents.length; i++) {
-            for (const color of tubeContents[i]) {
+            tubeContents[i].forEach((color, j) => {
                 const ball = new Ball(this.scene, 0, 0, color);
+                ball.isHidden = this.boardState.isHidden(i, j);
                 this.tubes[i].addBall(ball, false, true); // 第三个参数：skipDraw = true
-            }
+            });
         }
         
         // 批量添加完成后，统一绘制液体和检查高亮
@@ -287,6 +365,10 @@ export class Board extends Phaser.GameObjects.Container {
         const result = generatePuzzleWithAdapter({
             difficulty: this.difficulty,
             emptyTubeCount: this.emptyTubeCount,
+            tubeCount: this.tubes.length,
+            capacity: this.capacity,
+            hiddenLayers: this.hiddenLayers,
+            pourRules: this.pourRules,
             // seed: undefined,  // 可设置固定种子用于测试
         });
         
@@ -318,9 +400,9 @@ export class Board extends Phaser.GameObjects.Container {
      * 关键：每个位置层必须恰好有 12 球（numFilledTubes），颜色可以跨层
      */
     private generateLayeredPuzzleByDifficulty(emptyTubeCount: number): BallColor[][] {
-        const totalTubes = GAME_CONFIG.TUBE_COUNT;
-        const capacity = GAME_CONFIG.TUBE_CAPACITY; // 8
-        const numFilledTubes = totalTubes - emptyTubeCount; // 12个有球的试管
+        const totalTubes = this.tubes.length;
+        const capacity = this.capacity;
+        const numFilledTubes = totalTubes - emptyTubeCount; // 有球的试管数
         
         // 1. 获取颜色分配（每种颜色的球数是 8 的倍数）
         const colorDistribution = this.generateColorDistribution();
@@ -421,9 +503,9 @@ export class Board extends Phaser.GameObjects.Container {
      * 原始的分层谜题生成（12色满难度）- 保留作为参考
      */
     private generateLayeredPuzzle(emptyTubeCount: number): BallColor[][] {
-        const totalTubes = GAME_CONFIG.TUBE_COUNT;
-        const capacity = GAME_CONFIG.TUBE_CAPACITY;
-        const numFilledTubes = totalTubes - emptyTubeCount; // 12个有球的试管
+        const totalTubes = this.tubes.length;
+        const capacity = this.capacity;
+        const numFilledTubes = totalTubes - emptyTubeCount; // 有球的试管数
         
         // 1. 随机打乱颜色顺序，然后分成4组
         const shuffledColors = [...BALL_COLORS].sort(() => Math.random() - 0.5);
@@ -533,11 +615,13 @@ export class Board extends Phaser.GameObjects.Container {
      * 验证基于难度的分层谜题是否有效
      */
     private isLayeredPuzzleValidByDifficulty(tubeContents: BallColor[][]): boolean {
-        const capacity = GAME_CONFIG.TUBE_CAPACITY;
+        const capacity = this.capacity;
         const colorDistribution = this.generateColorDistribution();
         
-        // 检查前12个试管是否都是满的
-        for (let i = 0; i < 12; i++) {
+        const filledTubes = tubeContents.length - this.emptyTubeCount;
+
+        // 检查前 filledTubes 个试管是否都是满的
+        for (let i = 0; i < filledTubes; i++) {
             if (tubeContents[i].length !== capacity) {
                 return false;
             }
@@ -547,8 +631,8 @@ export class Board extends Phaser.GameObjects.Container {
             }
         }
         
-        // 检查后2个试管是否为空
-        for (let i = 12; i < 14; i++) {
+        // 检查其余试管是否为空
+        for (let i = filledTubes; i < tubeContents.length; i++) {
             if (tubeContents[i].length !== 0) {
                 return false;
             }
@@ -577,10 +661,12 @@ export class Board extends Phaser.GameObjects.Container {
      * 验证分层谜题是否有效（原始12色版本）
      */
     private isLayeredPuzzleValid(tubeContents: BallColor[][]): boolean {
-        const capacity = GAME_CONFIG.TUBE_CAPACITY;
+        const capacity = this.capacity;
         
-        // 检查前12个试管是否都是满的
-        for (let i = 0; i < 12; i++) {
+        const filledTubes = tubeContents.length - this.emptyTubeCount;
+
+        // 检查前 filledTubes 个试管是否都是满的
+        for (let i = 0; i < filledTubes; i++) {
             if (tubeContents[i].length !== capacity) {
                 return false;
             }
@@ -590,8 +676,8 @@ export class Board extends Phaser.GameObjects.Container {
             }
         }
         
-        // 检查后2个试管是否为空
-        for (let i = 12; i < 14; i++) {
+        // 检查其余试管是否为空
+        for (let i = filledTubes; i < tubeContents.length; i++) {
             if (tubeContents[i].length !== 0) {
                 return false;
             }
@@ -620,8 +706,8 @@ export class Board extends Phaser.GameObjects.Container {
      * 生成谜题 - 保留原有逆向生成算法作为备用
      */
     private generatePuzzle(numColors: number, emptyTubeCount: number): BallColor[][] {
-        const totalTubes = GAME_CONFIG.TUBE_COUNT;
-        const capacity = GAME_CONFIG.TUBE_CAPACITY;
+        const totalTubes = this.tubes.length;
+        const capacity = this.capacity;
         
         // 1. 创建已完成状态（每个试管一种颜色，8个同色球）
         const tubeContents: BallColor[][] = [];
@@ -855,7 +941,7 @@ export class Board extends Phaser.GameObjects.Container {
      * 确保有足够的空试管
      */
     private ensureEmptyTubes(tubeContents: BallColor[][], requiredEmpty: number) {
-        const capacity = GAME_CONFIG.TUBE_CAPACITY;
+        const capacity = this.capacity;
         
         while (true) {
             const emptyCount = tubeContents.filter(t => t.length === 0).length;
@@ -903,7 +989,7 @@ export class Board extends Phaser.GameObjects.Container {
             const firstColor = tube[0];
             const allSameColor = tube.every(ball => ball === firstColor);
             
-            if (allSameColor && tube.length === GAME_CONFIG.TUBE_CAPACITY) {
+            if (allSameColor && tube.length === this.capacity) {
                 completedCount++;
             } else if (!allSameColor) {
                 mixedCount++;
@@ -1054,6 +1140,20 @@ export class Board extends Phaser.GameObjects.Container {
             }
         }
         
+        this.syncStateFromTubes();
+    }
+
+    /**
+     * 按试管中现有的球重建逻辑状态（用于直接向试管加球的调试布局）
+     */
+    private syncStateFromTubes() {
+        this.boardState = new BoardState(
+            this.tubes.map(tube => tube.balls.map(ball => ball.color)),
+            this.capacity,
+            this.tubes.map(tube => tube.balls.map(ball => ball.isHidden)),
+            this.pourRules
+        );
+        this.moveRecorder = new MoveRecorder(this.boardState.toArray(), null, this.capacity, this.boardState.getHiddenMask(), this.pourRules);
     }
 
     private createHand() {
@@ -1063,7 +1163,7 @@ export class Board extends Phaser.GameObjects.Container {
         this.hand.setVisible(false);
         this.hand.setDepth(10000); // 确保在最上层，使用更高的depth值
         
-        // 初始缩放：横屏时缩小到70%
+        // 初始缩放：随试管缩放
         this.hand.setScale(this.getHandBaseScale());
 
         // 游戏开始时延迟显示初始引导（从500ms延后到1500ms，避免与初始化争抢主线程）
@@ -1073,12 +1173,11 @@ export class Board extends Phaser.GameObjects.Container {
     }
 
     /**
-     * 获取当前手指基准缩放值
+     * 获取当前手指基准缩放值（跟随试管缩放，限制在 0.5-1）
      */
     private getHandBaseScale(): number {
-        const gameSize = this.scene.scale.gameSize;
-        const isPortrait = gameSize.height > gameSize.width;
-        return isPortrait ? 1 : 0.7;
+        const scale = this.layout?.scale ?? 1;
+        return Math.max(0.5, Math.min(1, scale));
     }
 
     /**
@@ -1132,7 +1231,11 @@ export class Board extends Phaser.GameObjects.Container {
     }
 
     private handleTubeClick(tube: Tube) {
-        if (!this.isGameActive) return;
+        if (!this.isGameActive || this.pendingRescueUndos > 0 || this.isReplaying) return;
+
+        // 玩家接手：先结束演示（场景级 pointerdown 在试管的 pointerdown 之后才触发），倒回开局期间不接受点击
+        this.stopAutoplay();
+        if (this.autoplayMoves.length > 0) return;
         
         // 重置空闲计时器
         this.idleTimer = 0;
@@ -1206,7 +1309,7 @@ export class Board extends Phaser.GameObjects.Container {
             this.scene.tweens.add({
                 targets: topBall,
                 y: topY,
-                duration: BALL_RISE_DURATION,
+                duration: TUNING.BALL_RISE_DURATION,
                 ease: 'Power2',
                 onStart: () => {
                     // 上升时：若下方有相邻液体，在相邻液面播放水花（颜色为相邻液体颜色）
@@ -1236,7 +1339,7 @@ export class Board extends Phaser.GameObjects.Container {
                 this.scene.tweens.add({
                     targets: topBall,
                     y: targetY,
-                    duration: BALL_DROP_DURATION,
+                    duration: TUNING.BALL_DROP_DURATION,
                     ease: 'Quad.easeIn',
                     onComplete: () => {
                         if (!topBall.scene || !tube.scene) return;
@@ -1264,19 +1367,13 @@ export class Board extends Phaser.GameObjects.Container {
         const sourceColor = sourceBalls[0].color;
         const targetColor = target.getTopColor();
         
-        // 移动规则：
-        // 1. 目标试管未满
-        // 2. 目标试管为空 OR 目标试管顶部颜色与源球颜色相同
-        if (!target.isFull() && (target.isEmpty() || targetColor === sourceColor)) {
-            // 计算可以移动多少个球
-            const availableSpace = GAME_CONFIG.TUBE_CAPACITY - target.balls.length;
-            const ballsToMove = sourceBalls.slice(0, availableSpace); // 取前N个能放下的球
-            
-            if (ballsToMove.length === 0) return false;
+        // 移动规则由 BoardState 判定，合法时立即更新逻辑状态，动画随后追上
+        // 涉及的试管仍有球在飞行（表现落后于逻辑）时不接受新的移动，避免两者错位
+        if (!this.isTubeSettled(source) || !this.isTubeSettled(target)) return false;
+        const move = this.boardState.pour(source.id, target.id);
+        if (move) {
+            const ballsToMove = sourceBalls.slice(0, move.count); // 取前N个能放下的球
 
-            // 停止所有要移动球的悬浮动画（虽然只有最上面的球在悬浮）
-            ballsToMove.forEach(ball => ball.stopHoverAnimation());
-            
             const targetSameColorBalls: Ball[] = [];
             if (!target.isEmpty() && targetColor === sourceColor) {
                 target.balls.forEach(ball => {
@@ -1286,169 +1383,34 @@ export class Board extends Phaser.GameObjects.Container {
                 });
             }
 
-            // 提升目标试管层级
-            this.bringToTop(target);
-            
-            const totalBalls = ballsToMove.length;
-
-            // 记录目标试管原有球的数量
-            const originalBallCount = target.balls.length;
-            
-            // 立即清除选中状态，允许用户在动画过程中选择下一个球
-            // 这提高了游戏的流畅度和响应性
-            this.selectedTube = null;
-            
-            // 先按正确顺序将所有球添加到目标试管（建立逻辑顺序），但不播放动画
-            // ballsToMove[0] 是顶球，应该先动，先落地（在新球的最下面）
-            // ballsToMove[N-1] 是底球，应该最后动，最后落地（在新球的最上面）
-            // 直接按顺序添加
-            // 球仍在源试管时预计算每颗球的起始坐标（reparent 后保持视觉连续）
-            const startData = ballsToMove.map((ball) => {
-                const worldPos = source.localTransform.transformPoint(ball.x, ball.y);
-                const targetLocalPos = target.pointToContainer(worldPos);
-                return { ball, targetLocalPos };
-            });
-            // 只做视觉 reparent，不修改 source/target.balls；液面按「上升/落地」时机分层更新
-            startData.forEach(({ ball, targetLocalPos }) => {
-                target.add(ball);
-                ball.setPosition(targetLocalPos.x, targetLocalPos.y);
-                ball.setLiquidState('moving', { tubeDisplayWidth: target.getCachedTubeDisplayWidth() });
-            });
+            this.playPourAnimation(source, target, ballsToMove);
 
-            // 然后为每个球创建独立的移动动画
-            ballsToMove.forEach((ball, index) => {
-                // ballsToMove[0] 是顶球，先启动
-                const startDelay = index * BALL_MOVE_START_DELAY;
-                
-                // 计算球在 target.balls 中的索引
-                // ballsToMove[0] (顶球，先动) -> 落在 originalBallCount 位置（新球中的最下面）
-                // ballsToMove[N-1] (底球，后动) -> 落在 originalBallCount + N-1 位置（新球中的最上面）
-                const ballIndexInTarget = originalBallCount + index;
-                
-                const targetLocalPos = startData[index].targetLocalPos;
-                const sourceHoverY = -source.getCachedTubeHeight() / 2 - 50;
-                const sourceHoverWorldPos = source.localTransform.transformPoint(0, sourceHoverY);
-                const sourceHoverLocalPos = target.pointToContainer(sourceHoverWorldPos);
-                const targetHoverY = -target.getCachedTubeHeight() / 2 - 50;
-                
-                // 4. 计算最终位置（目标试管中的正确位置）
-                // @ts-ignore
-                const finalY = target['getBallY'](ballIndexInTarget);
-                
-                // 5. 创建流畅的动画序列 - 使用连续动画减少停顿
-                // 计算球当前是否已在悬浮位置（顶部球）
-                const isAlreadyHovering = index === 0 && ball.y < 0;
-                
-                // 动画参数（时长可在 GameConstants 中调整）
-                const riseTime = isAlreadyHovering ? BALL_MOVE_RISE_ALREADY_HOVER : BALL_MOVE_RISE_NORMAL;
-                const arcTime = BALL_MOVE_ARC_TIME;
-                
-                // 使用连续的tween实现流畅动画
-                // 第一步：快速上升到源试管上方；该球开始上升时从源试管移除一层并刷新液面（分层更新）
-                this.scene.tweens.add({
-                    targets: ball,
-                    x: sourceHoverLocalPos.x,
-                    y: sourceHoverLocalPos.y,
-                    duration: riseTime,
-                    ease: 'Power2.easeOut',
-                    delay: startDelay,
-                    onStart: () => {
-                        const isLastInGroup = index === ballsToMove.length - 1;
-                        const skipDraw = ballsToMove.length > 1 && !isLastInGroup;
-                        const skipHighlight = skipDraw;
-                        source.removeBall(ball, { skipDraw, skipHighlight });
-                        // 同色联动移动时，仅在最下层被移动液体的相邻层播水花；若无相邻层（移走后源试管空）则不播
-                        const isBottomOfMoveGroup = isLastInGroup;
-                        if (!isAlreadyHovering && isBottomOfMoveGroup && source.balls.length > 0) {
-                            source.playSplashAtCurrentSurface();
-                        }
-                    },
-                    onComplete: () => {
-                        if (!ball.scene || !target.scene) return;
-                        
-                        // 第二步：弧线移动到目标试管上方
-                        // 同时移动X和Y，Y先上升再下降形成弧线
-                        const peakY = Math.min(sourceHoverLocalPos.y, targetHoverY) - 30; // 弧线最高点
-                        
-                        // 使用两个并行的tween：X平移 + Y做弧线
-                        // X平移
-                        this.scene.tweens.add({
-                            targets: ball,
-                            x: 0,
-                            duration: arcTime,
-                            ease: 'Sine.easeInOut'
-                        });
-                        
-                        // Y做弧线（先上后下）
-                        this.scene.tweens.add({
-                            targets: ball,
-                            y: peakY,
-                            duration: arcTime * 0.4, // 前40%时间上升到顶点
-                            ease: 'Sine.easeOut',
-                            onComplete: () => {
-                                if (!ball.scene || !target.scene) return;
-                                
-                                // 从顶点开始下降到目标悬浮位置
-                                this.scene.tweens.add({
-                                    targets: ball,
-                                    y: targetHoverY,
-                                    duration: arcTime * 0.6, // 后60%时间下降
-                                    ease: 'Sine.easeIn',
-                                    onComplete: () => {
-                                        if (!ball.scene || !target.scene) return;
-                                        
-                                        // 第三步：下落到最终位置
-                                        // 下落开始时，调整层级
-                                        // @ts-ignore
-                                        target.sendToBack(ball);
-                                        // @ts-ignore
-                                        target.sendToBack(target.highlightMouthImage);
-                                        // @ts-ignore
-                                        target.sendToBack(target.tubeMouthImage);
-                                        
-                                        this.scene.tweens.add({
-                                            targets: ball,
-                                            y: finalY,
-                                            duration: BALL_DROP_DURATION, // 再次加速下落
-                                            ease: 'Quad.easeIn',
-                                            onComplete: () => {
-                                                if (!ball.scene || !target.scene) return;
+            // 记录历史：新的移动会清空重做栈；演示的移动单独记下，结束时倒回
+            if (this.autoplayActive) {
+                this.autoplayMoves.push(move);
+            } else {
+                this.undoStack.push(move);
+                this.redoStack.length = 0;
+                this.emitHistoryChanged();
+                this.moveRecorder?.record(move);
+            }
 
-                                                // 落地后该球加入目标试管，液体移动结束播放落下音效，水位渐升 + 水花跟随
-                                                target.balls.splice(ballIndexInTarget, 0, ball);
-                                                ball.setLiquidState('hidden');
-                                                this.scene.sound.play('落下');
-                                                target.animateWaterRiseWithSplash(ball.color, () => {
-                                                    if (!ball.scene || !target.scene) return;
-                                                    // @ts-ignore
-                                                    ball.setScale(target.currentBallSize / GAME_CONFIG.BALL_SIZE);
-                                                    // @ts-ignore
-                                                    target.bringToTop(target.tubeBodyImage);
-                                                    // @ts-ignore
-                                                    target.bringToTop(target.highlightBodyImage);
-                                                    // 每次有球落地且水位升完后都检查完成与高亮（不依赖“最后一个球”的 callback，避免联动时漏检）
-                                                    const checkCompletionAndWin = () => {
-                                                        if (!target.scene) return;
-                                                        target.checkCompletion();
-                                                        target.checkSameColorHighlight();
-                                                        source.checkSameColorHighlight();
-                                                        this.checkWinCondition();
-                                                    };
-                                                    this.scene.time.delayedCall(0, checkCompletionAndWin, [], this);
-                                                });
-                                            }
-                                        });
-                                    }
-                                });
-                            }
-                        });
-                    }
-                });
-            });
+            // 按提示路线走了一步：路线顺延
+            const nextHint = this.hintLine[0];
+            if (nextHint && nextHint.from === move.from && nextHint.to === move.to) {
+                this.hintLine.shift();
+                this.hintLineLayout = this.getLayoutKey();
+            }
             
-            // 增加跳转步数
-            this.jumpStepCount++;
-            EventBus.emit('jump-step', this.jumpStepCount);
+            // 增加跳转步数与同色合并数（演示的移动不算玩家步数）
+            if (!this.autoplayActive) {
+                this.jumpStepCount++;
+                EventBus.emit('jump-step', this.jumpStepCount);
+                if (targetSameColorBalls.length > 0) {
+                    this.mergeCount++;
+                    EventBus.emit('pour-merged', this.mergeCount);
+                }
+            }
             
             return true;
         }
@@ -1456,10 +1418,189 @@ export class Board extends Phaser.GameObjects.Container {
         return false;
     }
 
+    /**
+     * 播放倒入动画：ballsToMove[0] 为顶球，依次飞到 target 并在落地后检查完成/胜利
+     * 只负责表现，逻辑状态需在调用前已更新（正常移动、撤销、重做共用）
+     */
+    private playPourAnimation(source: Tube, target: Tube, ballsToMove: Ball[]) {
+        // 停止所有要移动球的悬浮动画（虽然只有最上面的球在悬浮）
+        ballsToMove.forEach(ball => ball.stopHoverAnimation());
+        
+        // 提升目标试管层级
+        this.bringToTop(target);
+        
+        const totalBalls = ballsToMove.length;
+
+        // 记录目标试管原有球的数量
+        const originalBallCount = target.balls.length;
+        
+        // 立即清除选中状态，允许用户在动画过程中选择下一个球
+        // 这提高了游戏的流畅度和响应性
+        this.selectedTube = null;
+        
+        // 先按正确顺序将所有球添加到目标试管（建立逻辑顺序），但不播放动画
+        // ballsToMove[0] 是顶球，应该先动，先落地（在新球的最下面）
+        // ballsToMove[N-1] 是底球，应该最后动，最后落地（在新球的最上面）
+        // 直接按顺序添加
+        // 球仍在源试管时预计算每颗球的起始坐标（reparent 后保持视觉连续）
+        const startData = ballsToMove.map((ball) => {
+            const worldPos = source.localTransform.transformPoint(ball.x, ball.y);
+            const targetLocalPos = target.pointToContainer(worldPos);
+            return { ball, targetLocalPos };
+        });
+        // 只做视觉 reparent，不修改 source/target.balls；液面按「上升/落地」时机分层更新
+        startData.forEach(({ ball, targetLocalPos }) => {
+            target.add(ball);
+            ball.setPosition(targetLocalPos.x, targetLocalPos.y);
+            ball.setLiquidState('moving', { tubeDisplayWidth: target.getCachedTubeDisplayWidth() });
+        });
+
+        // 然后为每个球创建独立的移动动画
+        ballsToMove.forEach((ball, index) => {
+            // ballsToMove[0] 是顶球，先启动
+            const startDelay = index * TUNING.BALL_MOVE_START_DELAY;
+            
+            // 计算球在 target.balls 中的索引
+            // ballsToMove[0] (顶球，先动) -> 落在 originalBallCount 位置（新球中的最下面）
+            // ballsToMove[N-1] (底球，后动) -> 落在 originalBallCount + N-1 位置（新球中的最上面）
+            const ballIndexInTarget = originalBallCount + index;
+            
+            const targetLocalPos = startData[index].targetLocalPos;
+            const sourceHoverY = -source.getCachedTubeHeight() / 2 - 50;
+            const sourceHoverWorldPos = source.localTransform.transformPoint(0, sourceHoverY);
+            const sourceHoverLocalPos = target.pointToContainer(sourceHoverWorldPos);
+            const targetHoverY = -target.getCachedTubeHeight() / 2 - 50;
+            
+            // 4. 计算最终位置（目标试管中的正确位置）
+            // @ts-ignore
+            const finalY = target['getBallY'](ballIndexInTarget);
+            
+            // 5. 创建流畅的动画序列 - 使用连续动画减少停顿
+            // 计算球当前是否已在悬浮位置（顶部球）
+            const isAlreadyHovering = index === 0 && ball.y < 0;
+            
+            // 动画参数（时长可在 GameConstants 中调整）
+            const riseTime = isAlreadyHovering ? TUNING.BALL_MOVE_RISE_ALREADY_HOVER : TUNING.BALL_MOVE_RISE_NORMAL;
+            const arcTime = TUNING.BALL_MOVE_ARC_TIME;
+            
+            // 使用连续的tween实现流畅动画
+            // 第一步：快速上升到源试管上方；该球开始上升时从源试管移除一层并刷新液面（分层更新）
+            this.scene.tweens.add({
+                targets: ball,
+                x: sourceHoverLocalPos.x,
+                y: sourceHoverLocalPos.y,
+                duration: riseTime,
+                ease: 'Power2.easeOut',
+                delay: startDelay,
+                onStart: () => {
+                    const isLastInGroup = index === ballsToMove.length - 1;
+                    const skipDraw = ballsToMove.length > 1 && !isLastInGroup;
+                    const skipHighlight = skipDraw;
+                    source.removeBall(ball, { skipDraw, skipHighlight });
+                    // 同色联动移动时，仅在最下层被移动液体的相邻层播水花；若无相邻层（移走后源试管空）则不播
+                    const isBottomOfMoveGroup = isLastInGroup;
+                    if (!isAlreadyHovering && isBottomOfMoveGroup && source.balls.length > 0) {
+                        source.playSplashAtCurrentSurface();
+                    }
+                },
+                onComplete: () => {
+                    if (!ball.scene || !target.scene) return;
+                    
+                    // 第二步：弧线移动到目标试管上方
+                    // 同时移动X和Y，Y先上升再下降形成弧线
+                    const peakY = Math.min(sourceHoverLocalPos.y, targetHoverY) - 30; // 弧线最高点
+                    
+                    // 使用两个并行的tween：X平移 + Y做弧线
+                    // X平移
+                    this.scene.tweens.add({
+                        targets: ball,
+                        x: 0,
+                        duration: arcTime,
+                        ease: 'Sine.easeInOut'
+                    });
+                    
+                    // Y做弧线（先上后下）
+                    this.scene.tweens.add({
+                        targets: ball,
+                        y: peakY,
+                        duration: arcTime * 0.4, // 前40%时间上升到顶点
+                        ease: 'Sine.easeOut',
+                        onComplete: () => {
+                            if (!ball.scene || !target.scene) return;
+                            
+                            // 从顶点开始下降到目标悬浮位置
+                            this.scene.tweens.add({
+                                targets: ball,
+                                y: targetHoverY,
+                                duration: arcTime * 0.6, // 后60%时间下降
+                                ease: 'Sine.easeIn',
+                                onComplete: () => {
+                                    if (!ball.scene || !target.scene) return;
+                                    
+                                    // 第三步：下落到最终位置
+                                    // 下落开始时，调整层级
+                                    // @ts-ignore
+                                    target.sendToBack(ball);
+                                    // @ts-ignore
+                                    target.sendToBack(target.highlightMouthImage);
+                                    // @ts-ignore
+                                    target.sendToBack(target.tubeMouthImage);
+                                    
+                                    this.scene.tweens.add({
+                                        targets: ball,
+                                        y: finalY,
+                                        duration: TUNING.BALL_DROP_DURATION, // 再次加速下落
+                                        ease: 'Quad.easeIn',
+                                        onComplete: () => {
+                                            if (!ball.scene || !target.scene) return;
+
+                                            // 落地后该球加入目标试管，液体移动结束播放落下音效，水位渐升 + 水花跟随
+                                            target.balls.splice(ballIndexInTarget, 0, ball);
+                                            ball.setLiquidState('hidden');
+                                            this.scene.sound.play('落下');
+                                            target.animateWaterRiseWithSplash(ball.color, () => {
+                                                if (!ball.scene || !target.scene) return;
+                                                // @ts-ignore
+                                                ball.setScale(target.currentBallSize / GAME_CONFIG.BALL_SIZE);
+                                                // @ts-ignore
+                                                target.bringToTop(target.tubeBodyImage);
+                                                // @ts-ignore
+                                                target.bringToTop(target.highlightBodyImage);
+                                                // 每次有球落地且水位升完后都检查完成与高亮（不依赖“最后一个球”的 callback，避免联动时漏检）
+                                                const checkCompletionAndWin = () => {
+                                                    if (!target.scene) return;
+                                                    target.checkCompletion();
+                                                    target.checkSameColorHighlight();
+                                                    source.checkSameColorHighlight();
+                                                    this.checkWinCondition();
+                                                };
+                                                this.scene.time.delayedCall(0, checkCompletionAndWin, [], this);
+                                            });
+                                        }
+                                    });
+                                }
+                            });
+                        }
+                    });
+                }
+            });
+        });
+    }
+
+    /**
+     * 试管的表现是否已与逻辑状态一致（没有进出中的球）
+     */
+    private isTubeSettled(tube: Tube): boolean {
+        return tube.balls.length === this.boardState.getTube(tube.id).length;
+    }
+
     /**
      * 更新完成试管计数（每次遍历所有试管重新计算）
      */
     public updateCompletedTubeCount() {
+        // 演示中完成的试管会随倒回开局撤销，不计数
+        if (this.autoplayActive || this.autoplayMoves.length > 0) return;
+
         // 遍历所有试管，计算完成的数量
         const count = this.tubes.filter(tube => tube.isCompleted).length;
         
@@ -1471,12 +1612,12 @@ export class Board extends Phaser.GameObjects.Container {
     }
 
     private checkWinCondition() {
-        const allCompleted = this.tubes.every(tube => tube.isEmpty() || tube.isCompleted);
+        const allCompleted = this.boardState.isSolved();
         if (allCompleted) {
-            // 游戏胜利，但不在这里发送 game-over 事件
-            // 等待最后一个试管的完成动画结束后再发送
-            // 由 onTubeCompleteInternal 中的 checkWinConditionAfterAnimation 处理
+            // 游戏胜利，但要等试管完成动画结束后再发送 game-over（onTubeCompleteInternal）；
+            // 最后一步没有触发完成动画时（颜色数不是容量整数倍的残管）在这里直接发送
             this.isGameActive = false;
+            this.checkWinConditionAfterAnimation();
         } else {
             // 延后到下一帧执行，避免与 checkCompletion/checkSameColorHighlight 在同一帧跑 14×14 死局扫描，减轻点击交互卡顿
             this.scene.time.delayedCall(0, this.checkDeadlock, [], this);
@@ -1484,70 +1625,413 @@ export class Board extends Phaser.GameObjects.Container {
     }
     
     /**
-     * 在试管完成动画结束后检查游戏胜利条件
+     * 在试管完成动画结束后检查游戏胜利条件（与 BoardState.isSolved 同一判定，所有完成动画播完才发送）
      */
     private checkWinConditionAfterAnimation() {
-        const allCompleted = this.tubes.every(tube => tube.isEmpty() || tube.isCompleted);
-        if (allCompleted && !this.isGameActive) {
-            EventBus.emit('game-over');
-        }
+        if (this.isGameActive || this.gameOverSent || !this.boardState.isSolved()) return;
+        if (this.tubes.some(tube => tube.isCompletionAnimating)) return;
+        this.gameOverSent = true;
+        EventBus.emit('game-over');
     }
 
     /**
      * 检查是否陷入死局（没有有效移动）
+     * 仍有移动时，再在空闲时用有界搜索判断是否已无法获胜
      */
     private checkDeadlock() {
-        // 如果游戏已结束，不检查死局
-        if (!this.isGameActive) return;
+        // 如果游戏已结束或正在救援撤销（中间局面本就是死局），不检查死局
+        if (!this.isGameActive || this.pendingRescueUndos > 0) return;
         
-        // 使用 findBestMove 来检查是否有有效移动
+        // 检查是否有有效移动
         const hasValidMove = this.hasAnyValidMove();
         
         if (!hasValidMove) {
             this.isGameActive = false;
             EventBus.emit('game-deadlock');
+            return;
         }
+
+        this.scheduleUnwinnableCheck();
     }
 
     /**
-     * 检查是否存在任何有效移动
-     * 比 findBestMove 更轻量，只需要找到一个有效移动即可
+     * 有界求解当前局面：穷尽所有可达局面仍无法胜利时发送 game-unwinnable
+     * 超出节点预算视为「未知」，不打断玩家；延后到空闲时执行，局面已变化则放弃本次结果
      */
-    private hasAnyValidMove(): boolean {
-        for (const source of this.tubes) {
-            // 跳过空管和已完成的管
-            if (source.isEmpty() || source.isCompleted) continue;
-            
-            const topBalls = source.getTopSameColorBalls();
-            if (topBalls.length === 0) continue;
-            
-            const topColor = topBalls[0].color;
-            
-            for (const target of this.tubes) {
-                // 跳过自身、已满和已完成的管
-                if (source === target || target.isFull() || target.isCompleted) continue;
-                
-                // 检查是否是合法移动
-                const targetColor = target.getTopColor();
-                
-                // 目标为空或颜色匹配
-                if (target.isEmpty() || targetColor === topColor) {
-                    // 检查是否有空间
-                    const availableSpace = GAME_CONFIG.TUBE_CAPACITY - target.balls.length;
-                    if (availableSpace > 0) {
-                        // 找到一个有效移动
-                        return true;
-                    }
-                }
+    private scheduleUnwinnableCheck() {
+        const key = this.boardState.toKey();
+        const run = () => {
+            if (!this.isGameActive || this.pendingRescueUndos > 0 || this.boardState.toKey() !== key) return;
+
+            if (this.getSolvability(this.boardState) === 'unsolvable') {
+                this.isGameActive = false;
+                EventBus.emit('game-unwinnable');
             }
+        };
+        if (typeof requestIdleCallback !== 'undefined') {
+            requestIdleCallback(() => run(), { timeout: 200 });
+        } else {
+            this.scene.time.delayedCall(0, run, [], this);
         }
-        
-        return false;
+    }
+
+    /**
+     * 有界求解某个局面（带缓存）
+     * 仍有神秘层时不调用求解器（会看到隐藏颜色），改为只凭可见信息探查：穷尽仍无法揭开新层即视为无解
+     */
+    private getSolvability(state: BoardState): SolveStatus {
+        const key = state.toKey();
+        let status = this.solvabilityCache.get(key);
+        if (status === undefined) {
+            if (state.hiddenCount > 0) {
+                const probe = probeReveal(state, Board.UNWINNABLE_CHECK_BUDGET);
+                status = probe.status === 'exhausted' ? 'unsolvable' : 'budget-exceeded';
+            } else {
+                // 加权搜索：有解的局面更快找到解，无解的局面仍需穷尽，结论不受权重影响
+                status = solveState(state, {
+                    nodeBudget: Board.UNWINNABLE_CHECK_BUDGET,
+                    weight: 3,
+                }).status;
+            }
+            this.solvabilityCache.set(key, status);
+        }
+        return status;
+    }
+
+    /** 玩家能否撤销：关卡失败后与回放中不能（回放内部的撤销走 undoMove） */
+    public canUndo(): boolean {
+        return this.canUndoMove() && !this.hasFailed && !this.isReplaying;
+    }
+
+    public canRedo(): boolean {
+        return this.redoStack.length > 0 && !this.hasFailed && !this.isReplaying;
+    }
+
+    private canUndoMove(): boolean {
+        return this.undoStack.length > 0 && !this.boardState.isSolved() && this.autoplayMoves.length === 0;
+    }
+
+    /**
+     * 撤销上一步：逻辑状态立即回退，并播放反向倒入动画
+     * 已胜利、已失败、回放中、无可撤销或相关试管仍在动画中时返回 false
+     */
+    public undo(): boolean {
+        return this.canUndo() && this.undoMove();
+    }
+
+    /**
+     * 重做最近一次撤销的移动
+     */
+    public redo(): boolean {
+        return this.canRedo() && this.redoMove();
+    }
+
+    private undoMove(): boolean {
+        const move = this.undoStack[this.undoStack.length - 1];
+        if (!move || !this.canUndoMove()) return false;
+
+        // 反向倒入：从原目标试管倒回原源试管
+        const from = this.tubes[move.to];
+        const to = this.tubes[move.from];
+        if (!this.isTubeSettled(from) || !this.isTubeSettled(to)) return false;
+
+        this.undoStack.pop();
+        this.boardState.revertMove(move);
+        this.redoStack.push(move);
+        this.moveRecorder?.record(move, 'undo');
+        this.replayMove(from, to, move.count);
+        return true;
+    }
+
+    private redoMove(): boolean {
+        const move = this.redoStack[this.redoStack.length - 1];
+        if (!move) return false;
+
+        const from = this.tubes[move.from];
+        const to = this.tubes[move.to];
+        if (!this.isTubeSettled(from) || !this.isTubeSettled(to)) return false;
+        if (this.boardState.getPourCount(move.from, move.to) !== move.count) {
+            // 局面与记录不符（不应发生），丢弃重做栈
+            this.redoStack.length = 0;
+            this.emitHistoryChanged();
+            return false;
+        }
+
+        this.redoStack.pop();
+        this.boardState.applyMove(move);
+        this.undoStack.push(move);
+        this.moveRecorder?.record(move, 'redo');
+        this.replayMove(from, to, move.count);
+        return true;
+    }
+
+    /**
+     * 救援（死局/无解弹窗使用）：连续撤销，直到回到仍可获胜的局面
+     * @returns 需要撤销的步数，0 表示没有可撤销的移动
+     */
+    public rescue(): number {
+        const probe = this.boardState.clone();
+        let steps = 0;
+        for (let i = this.undoStack.length - 1; i >= 0; i--) {
+            probe.revertMove(this.undoStack[i]);
+            steps++;
+            if (this.getSolvability(probe) !== 'unsolvable') break;
+        }
+        if (steps === 0 || !this.undo()) return 0;
+
+        // 其余步数在 update 中等上一步的球落定后依次撤销
+        this.pendingRescueUndos = steps - 1;
+        return steps;
+    }
+
+    /**
+     * 加管道具是否可用：未胜利、未失败、不在回放或救援中，且试管数未达上限
+     */
+    public canAddTube(): boolean {
+        return !this.boardState.isSolved()
+            && !this.hasFailed
+            && !this.isReplaying
+            && this.pendingRescueUndos === 0
+            && this.autoplayMoves.length === 0
+            && this.tubes.length < Board.MAX_TUBE_COUNT;
+    }
+
+    /**
+     * 加管道具：在末尾追加一个空试管并重新布局，新试管从上方淡入
+     * 可在死局/无解弹窗之后调用（重新激活游戏）；有球在飞时返回 false
+     */
+    public addTube(): boolean {
+        if (!this.canAddTube() || !this.tubes.every(tube => this.isTubeSettled(tube))) return false;
+        this.stopAutoplay();
+        this.appendEmptyTube();
+        return true;
+    }
+
+    private appendEmptyTube() {
+        const index = this.boardState.addEmptyTube();
+        this.moveRecorder?.record({ from: index, to: index, count: 0 }, 'add-tube');
+        const tube = this.createTube(index);
+
+        this.isGameActive = true;
+        this.idleTimer = 0;
+        this.hideHint();
+        this.handleResize(this.scene.scale.gameSize);
+
+        const targetY = tube.y;
+        tube.setAlpha(0);
+        tube.setY(targetY - 60);
+        this.scene.tweens.add({
+            targets: tube,
+            alpha: 1,
+            y: targetY,
+            duration: Board.ADD_TUBE_DURATION,
+            ease: 'Back.easeOut'
+        });
+        EventBus.emit('tube-added', this.tubes.length);
+    }
+
+    /**
+     * 撤销/重做共用：恢复交互状态并播放 from → to 的倒入动画（不计入跳转步数）
+     */
+    private replayMove(from: Tube, to: Tube, count: number) {
+        // 撤销可能发生在死局/无解弹窗之后，重新激活游戏（关卡失败后不再激活）
+        if (!this.hasFailed) this.isGameActive = true;
+        this.idleTimer = 0;
+        this.hideHint();
+        if (this.selectedTube && this.selectedTube !== from) {
+            this.deselectTube();
+        }
+        from.setTopBallFloating(false);
+
+        // 从已完成试管倒出：先撤销蜡烛，让球可见后再飞出
+        if (from.isCompleted) {
+            from.uncompleteTube();
+            this.updateCompletedTubeCount();
+        }
+
+        const ballsToMove = from.balls.slice(-count).reverse(); // 顶球在前
+        this.playPourAnimation(from, to, ballsToMove);
+        this.emitHistoryChanged();
+    }
+
+    /**
+     * 当前局面各试管内容（末尾为顶部），用于生成分享码
+     */
+    public getTubeContents(): BallColor[][] {
+        return this.boardState.toArray();
+    }
+
+    /** 试管容量（生成分享码等使用） */
+    public getCapacity(): number {
+        return this.capacity;
+    }
+
+    /** 当前隐藏掩码（已揭开的层为 false），用于生成分享码 */
+    public getHiddenMask(): boolean[][] {
+        return this.boardState.getHiddenMask();
+    }
+
+    /** 本局倒入规则 */
+    public getPourRules(): PourRules {
+        return { ...this.pourRules };
+    }
+
+    /**
+     * 导出本局的移动记录（开局前返回 null）
+     */
+    public getMoveLog(): MoveLog | null {
+        return this.moveRecorder ? this.moveRecorder.toLog() : null;
+    }
+
+    /**
+     * 按原时间轴重放移动记录，重现当时的画面；当前局面须与记录的开局一致
+     * 回放期间不接受玩家点击，返回是否开始回放
+     */
+    public playMoveLog(log: MoveLog): boolean {
+        if (!isSupportedMoveLogVersion(log.version)) {
+            console.warn(`[Board] 不支持的移动记录版本: ${log.version}`);
+            return false;
+        }
+        const layout = log.tubes.map(tube => tube.join(',')).join('|');
+        if (this.undoStack.length > 0 || layout !== this.getLayoutKey()) {
+            console.warn('[Board] 当前局面与记录的开局不一致，无法回放');
+            return false;
+        }
+        // 容量、隐藏层与倒入规则也须与录制时一致，否则同样的移动会得到不同结果
+        const hidden = this.boardState.getHiddenMask();
+        const sameHidden = hidden.every((tube, i) => tube.every((isHidden, j) => isHidden === !!log.hidden?.[i]?.[j]));
+        const rules = normalizePourRules(log.pourRules);
+        const sameRules = (Object.keys(rules) as Array<keyof PourRules>).every(key => rules[key] === this.pourRules[key]);
+        if (log.capacity !== this.capacity || !sameHidden || !sameRules) {
+            console.warn('[Board] 当前关卡的容量、隐藏层或倒入规则与记录不一致，无法回放');
+            return false;
+        }
+
+        this.stopAutoplay();
+        this.hideHint();
+        this.isReplaying = true;
+        this.replayStartTime = this.scene.time.now;
+        this.scheduleReplayStep(readMoveLogSteps(log), 0);
+        return true;
+    }
+
+    /**
+     * 安排第 index 步：正常倒入提前一个上升时长选中源试管，与玩家「先选中再倒入」的画面一致
+     */
+    private scheduleReplayStep(steps: MoveLogStep[], index: number) {
+        if (index >= steps.length) {
+            this.isReplaying = false;
+            return;
+        }
+        const step = steps[index];
+        const lead = step.kind === 'move' ? TUNING.BALL_RISE_DURATION : 0;
+        const delay = Math.max(0, this.replayStartTime + step.time - lead - this.scene.time.now);
+        this.replayTimer = this.scene.time.delayedCall(delay, () => this.runReplayStep(steps, index), [], this);
+    }
+
+    private runReplayStep(steps: MoveLogStep[], index: number) {
+        this.replayTimer = null;
+        if (!this.isReplaying) return;
+
+        const { move, kind } = steps[index];
+        if (kind === 'add-tube') {
+            if (!this.tubes.every(tube => this.isTubeSettled(tube))) {
+                this.replayTimer = this.scene.time.delayedCall(16, () => this.runReplayStep(steps, index), [], this);
+                return;
+            }
+            if (move.from !== this.tubes.length || this.tubes.length >= Board.MAX_TUBE_COUNT) {
+                this.stopReplay(`第 ${index + 1} 步加管索引不符`);
+                return;
+            }
+            this.appendEmptyTube();
+            this.scheduleReplayStep(steps, index + 1);
+            return;
+        }
+
+        const source = this.tubes[kind === 'undo' ? move.to : move.from];
+        const target = this.tubes[kind === 'undo' ? move.from : move.to];
+        if (!source || !target) {
+            this.stopReplay(`第 ${index + 1} 步试管索引越界`);
+            return;
+        }
+        // 上一步的球还在飞：稍后重试（时间轴按绝对时间计算，后续步骤会追上）
+        if (!this.isTubeSettled(source) || !this.isTubeSettled(target)) {
+            this.replayTimer = this.scene.time.delayedCall(16, () => this.runReplayStep(steps, index), [], this);
+            return;
+        }
+
+        if (kind === 'undo' || kind === 'redo') {
+            const ok = kind === 'undo' ? this.undoMove() : this.redoMove();
+            if (!ok) {
+                this.stopReplay(`第 ${index + 1} 步${kind === 'undo' ? '撤销' : '重做'}失败`);
+                return;
+            }
+            this.scheduleReplayStep(steps, index + 1);
+            return;
+        }
+
+        if (this.boardState.getPourCount(move.from, move.to) !== move.count) {
+            this.stopReplay(`第 ${index + 1} 步与局面不符`);
+            return;
+        }
+        if (this.selectedTube !== source) {
+            if (this.selectedTube) this.deselectTube();
+            this.selectTube(source);
+        }
+        this.replayTimer = this.scene.time.delayedCall(TUNING.BALL_RISE_DURATION, () => {
+            this.replayTimer = null;
+            if (!this.isReplaying) return;
+            this.tryMoveBall(source, target);
+            this.scheduleReplayStep(steps, index + 1);
+        });
+    }
+
+    /**
+     * 中止回放
+     */
+    public stopReplay(reason?: string) {
+        if (!this.isReplaying) return;
+        if (reason) console.warn('[Board] 回放中止:', reason);
+        this.isReplaying = false;
+        if (this.replayTimer) {
+            this.replayTimer.remove();
+            this.replayTimer = null;
+        }
+    }
+
+    private emitHistoryChanged() {
+        const state: BoardHistoryState = {
+            canUndo: this.canUndo(),
+            canRedo: this.canRedo(),
+            moveCount: this.undoStack.length,
+        };
+        EventBus.emit('history-changed', state);
+    }
+
+    /**
+     * 检查是否存在任何有效移动
+     * 比求提示更轻量，只需要找到一个有效移动即可
+     */
+    private hasAnyValidMove(): boolean {
+        return this.boardState.hasAnyLegalMove();
     }
 
     public update(time: number, delta: number) {
         if (!this.isGameActive) return;
 
+        // 救援撤销：上一步的球落定后继续撤销（undo 在试管未落定时返回 false，下一帧重试）
+        if (this.pendingRescueUndos > 0) {
+            if (this.undoStack.length === 0) {
+                this.pendingRescueUndos = 0;
+            } else if (this.undo()) {
+                this.pendingRescueUndos--;
+            }
+            return;
+        }
+
+        // 演示/回放中不显示空闲引导
+        if (this.autoplayActive || this.isReplaying) return;
+
         this.idleTimer += delta;
         
         // 5秒无操作后显示引导
@@ -1556,187 +2040,250 @@ export class Board extends Phaser.GameObjects.Container {
         }
     }
 
+    /** 是否已胜利（逻辑状态，动画可能仍在播放） */
+    public isSolved(): boolean {
+        return this.boardState.isSolved();
+    }
+
+    /**
+     * 关卡失败（步数或时间用尽）：停止接受操作，收起选中的试管、引导与演示
+     */
+    public fail() {
+        this.hasFailed = true;
+        this.stopAutoplay();
+        this.stopReplay();
+        this.hideHint();
+        if (this.selectedTube) {
+            this.deselectTube();
+        }
+        this.pendingRescueUndos = 0;
+        this.isGameActive = false;
+    }
+
+    /**
+     * 提示按钮是否可用：游戏进行中、未胜利且不在回放或救援中
+     */
+    public canRequestHint(): boolean {
+        return this.isGameActive && !this.boardState.isSolved() && !this.isReplaying && this.pendingRescueUndos === 0
+            && this.autoplayMoves.length === 0;
+    }
+
+    /**
+     * 提示按钮：立即显示引导手指（不等空闲计时，同步求解）
+     * 引导已在显示或当前局面没有可提示的移动时返回 false
+     */
+    public requestHint(): boolean {
+        if (!this.hand || !this.canRequestHint()) return false;
+
+        // 玩家接手：先结束演示（场景级 pointerdown 在按钮的 pointerdown 之后才触发）
+        this.stopAutoplay();
+        if (this.hand.visible && this.hintStep !== 'none') return false;
+
+        const hintMove = this.getHintMove();
+        if (!hintMove) return false;
+
+        if (this.selectedTube) {
+            this.deselectTube();
+        }
+        this.idleTimer = 0;
+        this.pointHandAtSource(this.tubes[hintMove.from], this.tubes[hintMove.to]);
+        return true;
+    }
+
     /**
      * 显示引导手势（第一步：指向源试管）
-     * 使用智能评分系统找到最优移动
-     * 优化：将 findBestMove 延后到下一帧执行，避免阻塞当前帧
+     * 提示来自对当前局面的求解：最短获胜路线的第一步，求解超出预算时给出安全步
+     * 优化：将求解延后到空闲时执行，避免阻塞当前帧
      */
     private showHint() {
-        if (!this.hand) return;
+        if (!this.hand || this.autoplayActive || this.isReplaying) return;
         
         // 重置引导状态
         this.hintSourceTube = null;
         this.hintTargetTube = null;
         this.hintStep = 'none';
         
-        // 延后到空闲时执行 findBestMove，避免阻塞主线程
-        const runFindBest = () => {
-            if (!this.hand || !this.isGameActive) return;
-            const bestMove = this.findBestMove();
-            if (bestMove) {
-                this.hintSourceTube = bestMove.source;
-                this.hintTargetTube = bestMove.target;
-                this.hintStep = 'source';
-                const globalPos = this.getWorldTransformMatrix().transformPoint(
-                    this.hintSourceTube.x,
-                    this.hintSourceTube.y - this.hintSourceTube.height / 4
-                );
-                this.hand.setPosition(globalPos.x, globalPos.y);
-                this.handBaseY = globalPos.y;
-                this.fadeInHand();
+        // 延后到空闲时求解，避免阻塞主线程
+        const runFindHint = () => {
+            if (!this.hand || !this.isGameActive || this.autoplayActive) return;
+            const hintMove = this.getHintMove();
+            if (hintMove) {
+                this.pointHandAtSource(this.tubes[hintMove.from], this.tubes[hintMove.to]);
             }
         };
         if (typeof requestIdleCallback !== 'undefined') {
-            requestIdleCallback(() => runFindBest(), { timeout: 50 });
+            requestIdleCallback(() => runFindHint(), { timeout: 50 });
         } else {
-            this.scene.time.delayedCall(0, runFindBest, [], this);
+            this.scene.time.delayedCall(0, runFindHint, [], this);
         }
     }
 
     /**
-     * 检查试管是否为纯色管（所有球颜色相同）
+     * 手指淡入并指向源试管，记录引导的源/目标（第一步）
      */
-    private isPureColorTube(tube: Tube): boolean {
-        if (tube.isEmpty()) return false;
-        
-        const firstColor = tube.balls[0].color;
-        return tube.balls.every(ball => ball.color === firstColor);
+    private pointHandAtSource(source: Tube, target: Tube) {
+        if (!this.hand) return;
+        this.hintSourceTube = source;
+        this.hintTargetTube = target;
+        this.hintStep = 'source';
+        const globalPos = this.getWorldTransformMatrix().transformPoint(
+            source.x,
+            source.y - source.height / 4
+        );
+        this.hand.setPosition(globalPos.x, globalPos.y);
+        this.handBaseY = globalPos.y;
+        this.fadeInHand();
     }
 
     /**
-     * 找到最佳移动
-     * 评分系统：
-     * - 完成试管 (+100): 移动后目标试管达到8个同色球
-     * - 移动球数 (+球数×10): 一次移动更多球效率更高
-     * - 目标颜色纯度 (+纯度×8): 目标试管只有一种颜色时优先
-     * - 释放源试管 (+25): 移动后源试管变空，增加操作空间
-     * - 移入空管 (-20): 避免无意义占用空管（除非释放源管）
-     * - 源管纯度惩罚 (-源管纯度×3): 避免破坏已经较纯的试管
+     * 自动演示开关：URL ?autoplay=1 或 output-config 中 autoplay 为 true
      */
-    private findBestMove(): Move | null {
-        const moves: Move[] = [];
-        
-        for (const source of this.tubes) {
-            // 跳过空管和已完成的管
-            if (source.isEmpty() || source.isCompleted) continue;
-            
-            // 跳过纯色管 - 如果试管中所有球都是同一颜色，不应该建议移动
-            if (this.isPureColorTube(source)) {
-                continue;
-            }
-            
-            const topBalls = source.getTopSameColorBalls();
-            if (topBalls.length === 0) continue;
-            
-            const topColor = topBalls[0].color;
-            
-            for (const target of this.tubes) {
-                // 跳过自身、已满和已完成的管
-                if (source === target || target.isFull() || target.isCompleted) continue;
-                
-                // 检查是否是合法移动
-                const targetColor = target.getTopColor();
-                if (!target.isEmpty() && targetColor !== topColor) continue;
-                
-                // 计算可移动球数
-                const availableSpace = GAME_CONFIG.TUBE_CAPACITY - target.balls.length;
-                const ballCount = Math.min(topBalls.length, availableSpace);
-                
-                if (ballCount === 0) continue;
-                
-                // 计算移动分数
-                const score = this.calculateMoveScore(source, target, ballCount, topColor);
-                
-                moves.push({ source, target, ballCount, score });
+    private async initAutoplay() {
+        const urlParams = new URLSearchParams(window.location.search);
+        let enabled = urlParams.get('autoplay') === '1';
+        if (!enabled) {
+            try {
+                enabled = (await getOutputConfigAsync()).autoplay === true;
+            } catch (e) {
+                enabled = false;
             }
         }
-        
-        moves.sort((a, b) => b.score - a.score);
-        return moves.length > 0 ? moves[0] : null;
+        if (enabled && this.scene) {
+            this.startAutoplay();
+        }
     }
 
     /**
-     * 计算移动分数
+     * 开始自动演示：沿提示路线逐步选中、倒入，直到只差获胜的一步、无路可走或玩家点击
+     * 有隐藏层的关卡不演示：倒入会揭开隐藏层，倒回也无法再盖上
      */
-    private calculateMoveScore(source: Tube, target: Tube, ballCount: number, color: BallColor): number {
-        let score = 0;
-        
-        // 1. 完成试管奖励 (+100)
-        // 如果移动后目标试管达到满且全部同色
-        const targetBallsAfterMove = target.balls.length + ballCount;
-        if (targetBallsAfterMove === GAME_CONFIG.TUBE_CAPACITY) {
-            // 检查移动后是否全部同色
-            const targetCurrentColor = target.getTopColor();
-            if (target.isEmpty() || targetCurrentColor === color) {
-                // 还需要确认目标试管原有的球也都是同一颜色
-                const targetAllSameColor = target.isEmpty() ||
-                    target.balls.every(ball => ball.color === color);
-                if (targetAllSameColor) {
-                    score += 100;
-                }
-            }
-        }
-        
-        // 2. 移动球数奖励 (+球数×10)
-        score += ballCount * 10;
-        
-        // 3. 目标颜色纯度奖励
-        // 目标试管只有一种颜色时，分数更高
-        if (!target.isEmpty()) {
-            const targetColors = new Set(target.balls.map(b => b.color));
-            if (targetColors.size === 1) {
-                // 目标管是纯色的，奖励更高
-                score += target.balls.length * 8;
-            }
-        }
-        
-        // 4. 释放源试管奖励 (+25)
-        const sourceBallsAfterMove = source.balls.length - ballCount;
-        if (sourceBallsAfterMove === 0) {
-            score += 25;
-        }
-        
-        // 5. 移入空管惩罚 (-20)
-        // 但如果这个移动能释放源管，则不惩罚
-        if (target.isEmpty() && sourceBallsAfterMove > 0) {
-            score -= 20;
+    public startAutoplay() {
+        if (this.autoplayActive) return;
+        this.autoplayActive = true;
+        this.hideHint();
+
+        // 任意真实点击立即结束演示
+        this.scene.input.once('pointerdown', this.stopAutoplay, this);
+        this.scheduleAutoplayStep(Board.AUTOPLAY_START_DELAY);
+    }
+
+    /**
+     * 结束自动演示，收起手指和演示中选中的试管，倒回开局后交还给玩家
+     */
+    public stopAutoplay() {
+        if (!this.autoplayActive) return;
+        this.autoplayActive = false;
+        this.scene.input.off('pointerdown', this.stopAutoplay, this);
+        if (this.autoplayTimer) {
+            this.autoplayTimer.remove();
+            this.autoplayTimer = null;
         }
-        
-        // 6. 源管纯度惩罚
-        // 如果源管只有一种颜色（即是纯色管），移动会破坏纯度，给予惩罚
-        // 但如果是全部移出（释放源管），则不惩罚
-        if (sourceBallsAfterMove > 0) {
-            const sourceColors = new Set(source.balls.map(b => b.color));
-            if (sourceColors.size === 1) {
-                // 源管是纯色的，移走部分球会破坏纯度
-                score -= source.balls.length * 3;
-            }
+        if (this.selectedTube) {
+            this.deselectTube();
         }
-        
-        // 7. 避免无意义的来回移动
-        // 如果目标是空管，且源管不能完全清空，且源管顶部同色球等于可移动数
-        // 这种移动可能没有实质性进展
-        if (target.isEmpty() && sourceBallsAfterMove > 0) {
-            const sourceTopBalls = source.getTopSameColorBalls();
-            if (sourceTopBalls.length === ballCount && ballCount < 4) {
-                // 这是把少量同色球移到空管，可能不是最优解
-                score -= 10;
-            }
+        this.hideHint();
+        this.idleTimer = 0;
+        this.restoreAutoplayStart();
+    }
+
+    /**
+     * 把演示的移动按相反顺序逐步倒回（与撤销相同的反向倒入动画）；相关试管仍在动画中时稍后重试
+     */
+    private restoreAutoplayStart() {
+        const move = this.autoplayMoves[this.autoplayMoves.length - 1];
+        if (!move || !this.scene) return;
+
+        const from = this.tubes[move.to];
+        const to = this.tubes[move.from];
+        if (this.isTubeSettled(from) && this.isTubeSettled(to)) {
+            this.autoplayMoves.pop();
+            this.boardState.revertMove(move);
+            this.replayMove(from, to, move.count);
+        }
+        if (this.autoplayMoves.length > 0) {
+            this.scene.time.delayedCall(Board.AUTOPLAY_RESTORE_DELAY, this.restoreAutoplayStart, [], this);
+        } else {
+            this.emitHistoryChanged();
         }
-        
-        // 8. 优先合并同色球
-        // 如果目标管有同色球，且移动后可以增加连续同色球数，奖励
-        if (!target.isEmpty()) {
-            const targetTopBalls = target.getTopSameColorBalls();
-            if (targetTopBalls.length > 0 && targetTopBalls[0].color === color) {
-                // 合并后的连续同色球数
-                const mergedCount = targetTopBalls.length + ballCount;
-                // 合并越多越好
-                score += mergedCount * 5;
-            }
+    }
+
+    private scheduleAutoplayStep(delay: number) {
+        this.autoplayTimer = this.scene.time.delayedCall(delay, this.runAutoplayStep, [], this);
+    }
+
+    /**
+     * 演示一步：手指指向源试管 → 选中并移到目标试管 → 倒入；上一步仍在动画中时稍后重试
+     */
+    private runAutoplayStep() {
+        this.autoplayTimer = null;
+        if (!this.autoplayActive) return;
+        if (!this.isGameActive) {
+            // 已胜利或进入死局弹窗
+            this.stopAutoplay();
+            return;
+        }
+        if (this.boardState.tubeCount === 0 || this.tubes.some(tube => !this.isTubeSettled(tube))) {
+            this.scheduleAutoplayStep(100);
+            return;
+        }
+        if (this.boardState.hiddenCount > 0 && this.autoplayMoves.length === 0) {
+            this.stopAutoplay();
+            return;
+        }
+
+        // 获胜的一步留给玩家：演示不触发胜利弹窗与 CTA
+        const move = this.getHintMove();
+        if (!move || this.isWinningMove(move)) {
+            this.stopAutoplay();
+            return;
+        }
+        const source = this.tubes[move.from];
+        const target = this.tubes[move.to];
+        this.pointHandAtSource(source, target);
+
+        this.autoplayTimer = this.scene.time.delayedCall(Board.AUTOPLAY_STEP_DELAY, () => {
+            if (!this.autoplayActive) return;
+            this.scene.sound.play('点击');
+            this.selectTube(source);
+            this.moveHandToTarget();
+
+            this.autoplayTimer = this.scene.time.delayedCall(Board.AUTOPLAY_STEP_DELAY, () => {
+                if (!this.autoplayActive) return;
+                if (!this.tryMoveBall(source, target)) {
+                    this.stopAutoplay();
+                    return;
+                }
+                this.scheduleAutoplayStep(Board.AUTOPLAY_STEP_DELAY);
+            });
+        });
+    }
+
+    private isWinningMove(move: PourMove): boolean {
+        const next = this.boardState.clone();
+        next.applyMove(move);
+        return next.isSolved();
+    }
+
+    /**
+     * 当前局面的提示移动；局面仍在上次的获胜路线上时直接取下一步
+     */
+    private getHintMove(): PourMove | null {
+        const layout = this.getLayoutKey();
+        if (this.hintLine.length > 0 && this.hintLineLayout === layout) {
+            return this.hintLine[0];
         }
-        
-        return score;
+
+        const hint = findHint(this.boardState, { nodeBudget: Board.HINT_SOLVER_BUDGET });
+        this.hintLine = hint ? hint.line : [];
+        this.hintLineLayout = layout;
+        return hint ? hint.move : null;
+    }
+
+    /**
+     * 布局键：与 BoardState.toKey 不同，保留试管顺序（提示路线里的移动按试管索引记录）
+     */
+    private getLayoutKey(): string {
+        return this.boardState.toArray().map(tube => tube.join(',')).join('|');
     }
 
     /**
@@ -1865,21 +2412,12 @@ export class Board extends Phaser.GameObjects.Container {
     }
 
     private handleResize(gameSize: Phaser.Structs.Size) {
-        const isPortrait = gameSize.height > gameSize.width;
-        const config = isPortrait ? GAME_CONFIG.PORTRAIT : GAME_CONFIG.LANDSCAPE;
+        const layout = this.computeLayout(gameSize.width, gameSize.height);
+        this.layout = layout;
 
-        // 计算缩放比例
-        // 竖屏使用原始比例，横屏根据试管宽度比例缩放球
-        const scale = isPortrait ? 1 : (config.TUBE_WIDTH / GAME_CONFIG.PORTRAIT.TUBE_WIDTH);
-        
         // 更新所有试管的尺寸
-        const tubeWidth = config.TUBE_WIDTH;
-        const tubeHeight = config.TUBE_HEIGHT;
-        const ballSize = GAME_CONFIG.BALL_SIZE * scale;
-        const ballSpacing = GAME_CONFIG.BALL_SPACING * scale;
-
         this.tubes.forEach(tube => {
-            tube.updateSize(tubeWidth, tubeHeight, ballSize, ballSpacing);
+            tube.updateSize(layout.tubeWidth, layout.tubeHeight, layout.ballSize, layout.ballSpacing);
         });
 
         // 横竖屏切换后，若有球正在悬浮，按新试管尺寸更新其相对位置（试管顶部一段距离）并重启悬浮动画
@@ -1895,27 +2433,8 @@ export class Board extends Phaser.GameObjects.Container {
         }
 
         // 重新排列试管
-        // 计算整体偏移量以确保居中
-        const totalWidth = (GAME_CONFIG.TUBE_COLS - 1) * config.COL_OFFSET_X;
-        const startX = (gameSize.width - totalWidth) / 2;
-        
-        // 计算垂直方向的整体偏移量以确保居中
-        const totalHeight = (GAME_CONFIG.TUBE_ROWS - 1) * config.ROW_SPACING_Y;
-        // 竖屏时，游戏区域通常偏上，但这里我们尝试居中
-        // 如果需要严格按照设计稿的固定Y值，可以使用 config.TUBE_START_Y
-        // 但为了适应不同屏幕，居中可能更好
-        // 这里我们结合两者：如果屏幕高度足够，则居中；否则使用固定起始位置或进行适配
-        
-        // 简单居中策略：
-        const startY = (gameSize.height - totalHeight) / 2;
-
         this.tubes.forEach((tube, index) => {
-            const row = Math.floor(index / GAME_CONFIG.TUBE_COLS);
-            const col = index % GAME_CONFIG.TUBE_COLS;
-
-            const x = startX + col * config.COL_OFFSET_X;
-            const y = startY + row * config.ROW_SPACING_Y;
-
+            const { x, y } = layout.positions[index];
             tube.setPosition(x, y);
         });
 
@@ -1925,6 +2444,17 @@ export class Board extends Phaser.GameObjects.Container {
         this.updateHintPosition();
     }
 
+    private computeLayout(width: number, height: number): BoardLayout {
+        return computeBoardLayout({ width, height, tubeCount: this.tubes.length, capacity: this.capacity });
+    }
+
+    /**
+     * 全部试管的外接矩形（游戏区域坐标），供场景对齐 UI
+     */
+    public getLayoutBounds(): BoardLayout['bounds'] {
+        return (this.layout ?? this.computeLayout(this.scene.scale.width, this.scene.scale.height)).bounds;
+    }
+
     /**
      * 更新引导手指位置和尺寸（用于横竖屏切换时）
      */
@@ -1,7 +1,7 @@
 import { Scene } from 'phaser';
 import { isPerfEnabled, recordDrawLiquid } from '../../utils/perfLogger';
 import { Ball } from './Ball';
-import { BallColor, BALL_RISE_DURATION, GAME_CONFIG, LIQUID_BALL_DISPLAY_WIDTH_RATIO, LIQUID_BALL_SIZE_SCALE, SPLASH_TUBE_WIDTH_RATIO, SPLASH_VERTICAL_OFFSET_RATIO, WATER_RISE_DURATION } from '../constants/GameConstants';
+import { BallColor, GAME_CONFIG, HIDDEN_LIQUID_COLOR, HIDDEN_MARK_COLOR, TUNING } from '../constants/GameConstants';
 import { getLiquidColors } from '../../utils/outputConfigLoader';
 import { EventBus } from '../EventBus';
 import { SpineLoader } from '../utils/SpineLoader';
@@ -19,6 +19,7 @@ export class Tube extends Phaser.GameObjects.Container {
     /** 水位上升时专用：加入块下边缘 surface，从动画开始就显式显示，不依赖 boundaries 数组 */
     private addingBlockBottomSurfaceSprite: Phaser.GameObjects.Sprite | null = null;
     private boundarySurfaceSprites: Phaser.GameObjects.Sprite[] = []; // 分界处液面（不加反光）
+    private hiddenMarkTexts: Phaser.GameObjects.Text[] = []; // 神秘层上的「?」标记（复用，不频繁创建）
     private maskImage: Phaser.GameObjects.Image;
     private maskGraphics: Phaser.GameObjects.Graphics; // 备用：几何遮罩
     private liquidMask: Phaser.Display.Masks.GeometryMask | null = null; // 液体遮罩引用
@@ -44,7 +45,11 @@ export class Tube extends Phaser.GameObjects.Container {
     private fireSprite: Phaser.GameObjects.Sprite | null = null; // 火焰动画精灵
     public balls: Ball[] = [];
     public id: number;
+    /** 容量（单位数），由关卡决定 */
+    public readonly capacity: number;
     public isCompleted: boolean = false;
+    /** 完成动画播放中（播完后发送 tube-complete-internal） */
+    public isCompletionAnimating: boolean = false;
     private isSameColorHighlighted: boolean = false; // 同色高亮状态（未满但同色）
     private currentHighlightColor: BallColor | null = null; // 当前高亮颜色
     private highlightTween: Phaser.Tweens.Tween | null = null; // 当前高亮过渡动画
@@ -75,9 +80,10 @@ export class Tube extends Phaser.GameObjects.Container {
     /** 合并绘制时由 Board 触发的重绘回调 */
     private onRequestLiquidRedraw: (() => void) | null = null;
 
-    constructor(scene: Scene, x: number, y: number, id: number, onRequestLiquidRedraw?: () => void) {
+    constructor(scene: Scene, x: number, y: number, id: number, onRequestLiquidRedraw?: () => void, capacity: number = GAME_CONFIG.TUBE_CAPACITY) {
         super(scene, x, y);
         this.id = id;
+        this.capacity = capacity;
         this.onRequestLiquidRedraw = onRequestLiquidRedraw ?? null;
 
         // 默认尺寸
@@ -178,6 +184,10 @@ export class Tube extends Phaser.GameObjects.Container {
                 if (sprite && sprite.scene) sprite.destroy();
             });
             this.boundarySurfaceSprites = [];
+            this.hiddenMarkTexts.forEach(text => {
+                if (text && text.scene) text.destroy();
+            });
+            this.hiddenMarkTexts = [];
             if (this.addingBlockBottomSurfaceSprite && this.addingBlockBottomSurfaceSprite.scene) {
                 this.addingBlockBottomSurfaceSprite.destroy();
                 this.addingBlockBottomSurfaceSprite = null;
@@ -215,6 +225,9 @@ export class Tube extends Phaser.GameObjects.Container {
         return this.currentHeight;
     }
 
+    /**
+     * 更新试管与液体单位尺寸；ballSize + ballSpacing 为每个单位的高度，由 Board 按容量换算，使 capacity 个单位正好装满试管
+     */
     public updateSize(width: number, height: number, ballSize: number, ballSpacing: number) {
         this.currentWidth = width;
         this.currentHeight = height;
@@ -303,17 +316,18 @@ export class Tube extends Phaser.GameObjects.Container {
         const ox = this.x;
         const oy = this.y;
         const toWorld = (lx: number, ly: number) => ({ x: ox + lx, y: oy + ly });
-        const drawRect = (color: BallColor, lx: number, ly: number, w: number, h: number) => {
+        const drawRect = (fill: number, lx: number, ly: number, w: number, h: number) => {
             const p = toWorld(lx, ly);
-            targetGraphics.fillStyle(getLiquidColors()[color], 1);
+            targetGraphics.fillStyle(fill, 1);
             targetGraphics.fillRect(p.x, p.y, w, h);
         };
 
         if (this.balls.length === 0 && this.removingBallColor === null && this.addingBallColor === null) {
             this._lastBoundaries = [];
-            this._lastTopColor = null;
+            this._lastTopFill = null;
             this._lastCurrentY = 0;
             this._lastAddBoundaryY = null;
+            this._lastHiddenMarkYs = [];
             return;
         }
 
@@ -321,66 +335,110 @@ export class Tube extends Phaser.GameObjects.Container {
         const bottomY = this.currentHeight / 2 - Tube.LIQUID_BOTTOM_BASE_OFFSET * (this.currentHeight / GAME_CONFIG.PORTRAIT.TUBE_HEIGHT);
         const width = this.currentWidth;
         let currentY = bottomY;
-        let topColor: BallColor | null = null;
+        let topFill: number | null = null;
         let ballsForLiquid = (this._topBallFloating && this.balls.length > 0) ? this.balls.slice(0, -1) : this.balls;
         if (this.addingBallColor !== null && this.balls.length > 0) ballsForLiquid = this.balls.slice(0, -1);
 
-        const boundaries: Array<{ y: number; color: BallColor }> = [];
-        if (ballsForLiquid.length > 0) {
-            let currentColor = ballsForLiquid[0].color;
-            let currentCount = 0;
-            for (let i = 0; i < ballsForLiquid.length; i++) {
-                const ball = ballsForLiquid[i];
-                if (ball.color === currentColor) currentCount++;
-                else {
-                    const h = currentCount * unitHeight;
-                    drawRect(currentColor, -width / 2, currentY - h, width, h + 2);
-                    boundaries.push({ y: currentY - h, color: ball.color });
-                    currentY -= h;
-                    currentColor = ball.color;
-                    currentCount = 1;
-                }
-            }
-            const h = currentCount * unitHeight;
-            drawRect(currentColor, -width / 2, currentY - h, width, h + 2);
+        const boundaries: Array<{ y: number; fill: number }> = [];
+        const hiddenMarkYs: number[] = [];
+        this.groupLiquidLayers(ballsForLiquid).forEach((layer, index, layers) => {
+            const h = layer.count * unitHeight;
+            drawRect(layer.fill, -width / 2, currentY - h, width, h + 2);
+            if (layer.hidden) hiddenMarkYs.push(currentY - h / 2);
             currentY -= h;
-            topColor = currentColor;
-        }
+            if (index < layers.length - 1) boundaries.push({ y: currentY, fill: layers[index + 1].fill });
+            topFill = layer.fill;
+        });
         if (this.removingBallColor !== null && this.removingBallHeight > 0) {
-            boundaries.push({ y: currentY - this.removingBallHeight, color: topColor ?? this.removingBallColor });
-            drawRect(this.removingBallColor, -width / 2, currentY - this.removingBallHeight, width, this.removingBallHeight + 2);
+            const removingFill = getLiquidColors()[this.removingBallColor];
+            boundaries.push({ y: currentY - this.removingBallHeight, fill: topFill ?? removingFill });
+            drawRect(removingFill, -width / 2, currentY - this.removingBallHeight, width, this.removingBallHeight + 2);
             currentY -= this.removingBallHeight;
-            topColor = this.removingBallColor;
+            topFill = removingFill;
         }
         let addBoundaryY: number | null = null;
         if (this.addingBallColor !== null) {
+            const addingFill = getLiquidColors()[this.addingBallColor];
             addBoundaryY = currentY - this.addingBallHeight;
-            if (this._isReturnWaterRise) boundaries.push({ y: addBoundaryY, color: topColor ?? this.addingBallColor });
+            if (this._isReturnWaterRise) boundaries.push({ y: addBoundaryY, fill: topFill ?? addingFill });
             if (this.addingBallHeight > 0) {
-                drawRect(this.addingBallColor, -width / 2, currentY - this.addingBallHeight, width, this.addingBallHeight + 2);
+                drawRect(addingFill, -width / 2, currentY - this.addingBallHeight, width, this.addingBallHeight + 2);
                 currentY -= this.addingBallHeight;
-                topColor = this.addingBallColor;
+                topFill = addingFill;
             }
         }
         this._lastBoundaries = boundaries;
-        this._lastTopColor = topColor;
+        this._lastTopFill = topFill;
         this._lastCurrentY = currentY;
         this._lastAddBoundaryY = addBoundaryY;
+        this._lastHiddenMarkYs = hiddenMarkYs;
     }
 
-    private _lastBoundaries: Array<{ y: number; color: BallColor }> = [];
-    private _lastTopColor: BallColor | null = null;
+    private _lastBoundaries: Array<{ y: number; fill: number }> = [];
+    private _lastTopFill: number | null = null;
     private _lastCurrentY: number = 0;
     private _lastAddBoundaryY: number | null = null;
+    private _lastHiddenMarkYs: number[] = [];
+
+    /**
+     * 合并相邻同色球为液体层；神秘层各自成层（不合并，也不与相邻同色合并），使用中性色
+     */
+    private groupLiquidLayers(balls: Ball[]): Array<{ fill: number; count: number; hidden: boolean }> {
+        const colors = getLiquidColors();
+        const layers: Array<{ fill: number; count: number; hidden: boolean; color: BallColor }> = [];
+        for (const ball of balls) {
+            const last = layers[layers.length - 1];
+            if (last && !last.hidden && !ball.isHidden && last.color === ball.color) {
+                last.count++;
+            } else {
+                layers.push({
+                    fill: ball.isHidden ? HIDDEN_LIQUID_COLOR : colors[ball.color],
+                    count: 1,
+                    hidden: ball.isHidden,
+                    color: ball.color,
+                });
+            }
+        }
+        return layers;
+    }
+
+    /** 在神秘层中心显示「?」（ys 为试管本地坐标） */
+    private updateHiddenMarks(ys: number[]): void {
+        const fontSize = Math.max(12, Math.round(this.currentBallSize * 0.6));
+        while (this.hiddenMarkTexts.length < ys.length) {
+            const text = this.scene.add.text(0, 0, '?', {
+                fontFamily: 'Arial, sans-serif',
+                fontStyle: 'bold',
+                fontSize: `${fontSize}px`,
+                color: HIDDEN_MARK_COLOR,
+            });
+            text.setOrigin(0.5, 0.5);
+            text.setDepth(2);
+            this.liquidContainer.add(text);
+            this.hiddenMarkTexts.push(text);
+        }
+        for (let i = 0; i < this.hiddenMarkTexts.length; i++) {
+            const text = this.hiddenMarkTexts[i];
+            if (i >= ys.length) {
+                text.setVisible(false);
+                continue;
+            }
+            if (text.style.fontSize !== `${fontSize}px`) text.setFontSize(fontSize);
+            text.setPosition(0, ys[i]);
+            text.setVisible(true);
+            this.liquidContainer.bringToTop(text);
+        }
+    }
 
     /**
      * 合并绘制：更新液面 Sprite（需在 drawLiquidBlocksTo 之后调用）
      */
     public updateSurfaceSprites(): void {
         const boundaries = this._lastBoundaries;
-        const topColor = this._lastTopColor;
+        const topFill = this._lastTopFill;
         const currentY = this._lastCurrentY;
         const addBoundaryY = this._lastAddBoundaryY;
+        this.updateHiddenMarks(this._lastHiddenMarkYs);
 
         if (this.balls.length === 0 && this.removingBallColor === null && this.addingBallColor === null) {
             this.surfaceSprite.setVisible(false);
@@ -390,13 +448,13 @@ export class Tube extends Phaser.GameObjects.Container {
         }
         const hasSurfaceTexture = this.scene.textures.exists('liquid_surface');
         if (hasSurfaceTexture) {
-            if (topColor !== null) {
+            if (topFill !== null) {
                 const hideTopSurface = this._isReturnWaterRise && this.addingBallColor !== null && this.addingBallHeight <= 0;
                 if (hideTopSurface) this.surfaceSprite.setVisible(false);
                 else {
                     this.surfaceSprite.setVisible(true);
                     this.surfaceSprite.setPosition(0, currentY);
-                    this.surfaceSprite.setTintFill(this.lightenColor(getLiquidColors()[topColor], 0.5));
+                    this.surfaceSprite.setTintFill(this.lightenColor(topFill, 0.5));
                     const w = this.currentWidth;
                     const fw = (this.surfaceSprite.frame?.width ?? this.surfaceSprite.width) || 1;
                     const fh = (this.surfaceSprite.frame?.height ?? this.surfaceSprite.height) || 1;
@@ -418,7 +476,7 @@ export class Tube extends Phaser.GameObjects.Container {
                 const s = this.boundarySurfaceSprites[i];
                 s.setVisible(true);
                 s.setPosition(0, b.y);
-                s.setTintFill(getLiquidColors()[b.color]);
+                s.setTintFill(b.fill);
                 const w = this.currentWidth;
                 const fw = (s.frame?.width ?? s.width) || 1;
                 const fh = (s.frame?.height ?? s.height) || 1;
@@ -458,6 +516,7 @@ export class Tube extends Phaser.GameObjects.Container {
             this.surfaceSprite.setVisible(false);
             // 隐藏所有分界处液面
             this.boundarySurfaceSprites.forEach(sprite => sprite.setVisible(false));
+            this.updateHiddenMarks([]);
             return;
         }
 
@@ -467,7 +526,7 @@ export class Tube extends Phaser.GameObjects.Container {
         
         // 绘制液体柱：顶球若正在试管外悬浮则不参与；若正在加入液体则先不画最后一颗，改画 adding 块
         let currentY = bottomY;
-        let topColor: BallColor | null = null;
+        let topFill: number | null = null;
         let ballsForLiquid =
             this._topBallFloating && this.balls.length > 0
                 ? this.balls.slice(0, -1)
@@ -477,45 +536,29 @@ export class Tube extends Phaser.GameObjects.Container {
         }
 
         // 记录分界位置（分界处底边缘 = 下方液体的顶部边缘）
-        const boundaries: Array<{ y: number; color: BallColor }> = [];
+        const boundaries: Array<{ y: number; fill: number }> = [];
+        const hiddenMarkYs: number[] = [];
         
-        if (ballsForLiquid.length > 0) {
-            // 合并相邻同色球
-            let currentColor = ballsForLiquid[0].color;
-            let currentCount = 0;
-
-            for (let i = 0; i < ballsForLiquid.length; i++) {
-                const ball = ballsForLiquid[i];
-                if (ball.color === currentColor) {
-                    currentCount++;
-                } else {
-                    // 绘制上一段颜色
-                    this.drawLiquidBlock(currentColor, currentCount, currentY, unitHeight);
-                    const boundaryY = currentY - currentCount * unitHeight; // 分界处底边缘（下方液体的顶部）
-                    currentY = boundaryY;
-                    
-                    // 记录分界（使用下方液体的颜色）
-                    boundaries.push({ y: boundaryY, color: ball.color });
-
-                    // 开始新的一段
-                    currentColor = ball.color;
-                    currentCount = 1;
-                }
-            }
-            // 绘制最后一段
-            this.drawLiquidBlock(currentColor, currentCount, currentY, unitHeight);
-            currentY -= currentCount * unitHeight;
-            topColor = currentColor;
-        }
+        // 合并相邻同色球，逐层绘制
+        this.groupLiquidLayers(ballsForLiquid).forEach((layer, index, layers) => {
+            this.drawLiquidBlock(layer.fill, layer.count, currentY, unitHeight);
+            if (layer.hidden) hiddenMarkYs.push(currentY - layer.count * unitHeight / 2);
+            currentY -= layer.count * unitHeight; // 分界处底边缘（下方液体的顶部）
+            // 记录分界（使用上方液体的颜色）
+            if (index < layers.length - 1) boundaries.push({ y: currentY, fill: layers[index + 1].fill });
+            topFill = layer.fill;
+        });
+        this.updateHiddenMarks(hiddenMarkYs);
 
         // 绘制正在移除的液体块（如果有）：分界处立即画弧线液面，避免短暂直线
         if (this.removingBallColor !== null && this.removingBallHeight > 0) {
             const width = this.currentWidth;
-            boundaries.push({ y: currentY - this.removingBallHeight, color: topColor ?? this.removingBallColor });
-            this.liquidGraphics.fillStyle(getLiquidColors()[this.removingBallColor], 1);
+            const removingFill = getLiquidColors()[this.removingBallColor];
+            boundaries.push({ y: currentY - this.removingBallHeight, fill: topFill ?? removingFill });
+            this.liquidGraphics.fillStyle(removingFill, 1);
             this.liquidGraphics.fillRect(-width / 2, currentY - this.removingBallHeight, width, this.removingBallHeight + 2);
             currentY -= this.removingBallHeight;
-            topColor = this.removingBallColor;
+            topFill = removingFill;
         }
 
         // 绘制正在加入的液体块（球落定后水位渐升）：分界处从动画开始就画弧线液面（包括 addingBallHeight===0）
@@ -524,7 +567,7 @@ export class Tube extends Phaser.GameObjects.Container {
             addBoundaryY = currentY - this.addingBallHeight;
             // 归位时用 boundarySurfaceSprites 画此分界（下方液体颜色）；非归位时用 addingBlockBottomSurfaceSprite 画加入块下边缘，不再 push 避免同一条线画两次
             if (this._isReturnWaterRise) {
-                boundaries.push({ y: addBoundaryY, color: topColor ?? this.addingBallColor });
+                boundaries.push({ y: addBoundaryY, fill: topFill ?? getLiquidColors()[this.addingBallColor] });
             }
             // 非归位时：加入块下边缘用专用 sprite 绘制，不放入 boundaries
             if (this.addingBallHeight > 0) {
@@ -532,7 +575,7 @@ export class Tube extends Phaser.GameObjects.Container {
                 this.liquidGraphics.fillStyle(getLiquidColors()[this.addingBallColor], 1);
                 this.liquidGraphics.fillRect(-width / 2, currentY - this.addingBallHeight, width, this.addingBallHeight + 2);
                 currentY -= this.addingBallHeight;
-                topColor = this.addingBallColor;
+                topFill = getLiquidColors()[this.addingBallColor];
             }
         }
 
@@ -541,7 +584,7 @@ export class Tube extends Phaser.GameObjects.Container {
         
         if (hasSurfaceTexture) {
             // 1. 顶部液面（加反光效果）。仅归位时水位上升刚开始（addingBallHeight<=0）不显示顶部液面；移到目标试管时始终显示
-            if (topColor !== null) {
+            if (topFill !== null) {
                 const hideTopSurfaceForBoundary = this._isReturnWaterRise && this.addingBallColor !== null && this.addingBallHeight <= 0;
                 if (hideTopSurfaceForBoundary) {
                     this.surfaceSprite.setVisible(false);
@@ -549,8 +592,7 @@ export class Tube extends Phaser.GameObjects.Container {
                     this.surfaceSprite.setVisible(true);
                     this.surfaceSprite.setPosition(0, currentY);
                     // 液面颜色比液体颜色浅，突出反光效果（混合 30% 白色）
-                    const liquidColor = getLiquidColors()[topColor];
-                    const surfaceColor = this.lightenColor(liquidColor, 0.5);
+                    const surfaceColor = this.lightenColor(topFill, 0.5);
                     this.surfaceSprite.setTintFill(surfaceColor);
                     const w = this.currentWidth;
                     const frame = this.surfaceSprite.frame;
@@ -585,7 +627,7 @@ export class Tube extends Phaser.GameObjects.Container {
                 sprite.setVisible(true);
                 sprite.setPosition(0, boundary.y);
                 // 使用原始颜色，不加反光
-                sprite.setTintFill(getLiquidColors()[boundary.color]);
+                sprite.setTintFill(boundary.fill);
                 const w = this.currentWidth;
                 const frame = sprite.frame;
                 const fw = (frame?.width ?? sprite.width) || 1;
@@ -650,11 +692,11 @@ export class Tube extends Phaser.GameObjects.Container {
         return (newR << 16) | (newG << 8) | newB;
     }
 
-    private drawLiquidBlock(color: BallColor, count: number, bottomY: number, unitHeight: number) {
+    private drawLiquidBlock(fill: number, count: number, bottomY: number, unitHeight: number) {
         const height = count * unitHeight;
         const width = this.currentWidth; // 填满宽度，依靠遮罩裁剪
         
-        this.liquidGraphics.fillStyle(getLiquidColors()[color], 1);
+        this.liquidGraphics.fillStyle(fill, 1);
         // 绘制矩形 (中心点为 0,0，所以 x 需要偏移)
         this.liquidGraphics.fillRect(-width / 2, bottomY - height, width, height + 2); // +2 为了消除缝隙
     }
@@ -690,7 +732,7 @@ export class Tube extends Phaser.GameObjects.Container {
 
 
     public addBall(ball: Ball, animate: boolean = true, skipDraw: boolean = false) {
-        if (this.balls.length >= GAME_CONFIG.TUBE_CAPACITY) return false;
+        if (this.balls.length >= this.capacity) return false;
 
         // 将球添加到列表中
         this.balls.push(ball);
@@ -721,7 +763,7 @@ export class Tube extends Phaser.GameObjects.Container {
             const dropSprite = this.scene.add.sprite(0, -this.currentHeight / 2 - 50, 'liquid_drop');
             dropSprite.setTintFill(getLiquidColors()[ball.color]);
             const dropFrameW = dropSprite.width || 129;
-            const dropScale = (this.getCachedTubeDisplayWidth() * LIQUID_BALL_DISPLAY_WIDTH_RATIO * LIQUID_BALL_SIZE_SCALE) / dropFrameW;
+            const dropScale = (this.getCachedTubeDisplayWidth() * TUNING.LIQUID_BALL_DISPLAY_WIDTH_RATIO * TUNING.LIQUID_BALL_SIZE_SCALE) / dropFrameW;
             dropSprite.setScale(dropScale);
             this.add(dropSprite);
             this.sendToBack(dropSprite);
@@ -774,7 +816,7 @@ export class Tube extends Phaser.GameObjects.Container {
             this.scene.tweens.add({
                 targets: this,
                 removingBallHeight: 0,
-                duration: BALL_RISE_DURATION, // 与小球飞起动画同步
+                duration: TUNING.BALL_RISE_DURATION, // 与小球飞起动画同步
                 onUpdate: () => {
                     this.drawLiquidThrottled(33); // 约 30fps 重绘，减轻交互卡顿
                 },
@@ -785,7 +827,8 @@ export class Tube extends Phaser.GameObjects.Container {
             });
         }
         
-        // 移除球后检查同色高亮
+        // 露出的新顶部揭开，移除球后检查同色高亮
+        this.revealTopBall();
         this.checkSameColorHighlight();
         return ball || null;
     }
@@ -794,6 +837,7 @@ export class Tube extends Phaser.GameObjects.Container {
         const index = this.balls.indexOf(ball);
         if (index !== -1) {
             this.balls.splice(index, 1);
+            this.revealTopBall();
             // 更新液体显示
             if (!options?.skipDraw) {
                 this.requestDrawLiquid();
@@ -805,6 +849,12 @@ export class Tube extends Phaser.GameObjects.Container {
         }
     }
 
+    /** 顶部的神秘层揭开（只改标记，重绘由调用方负责） */
+    private revealTopBall() {
+        const top = this.getTopBall();
+        if (top) top.isHidden = false;
+    }
+
     /** 刷新试管内液体显示（球落地后调用，使液面与球列表一致） */
     public updateLiquidDisplay() {
         this.requestDrawLiquid();
@@ -844,10 +894,10 @@ export class Tube extends Phaser.GameObjects.Container {
         const splashSprite = this.scene.add.sprite(0, surfaceY, 'splash_00000');
         splashSprite.setData('isLiquidSplash', true);
         splashSprite.setTintFill(getLiquidColors()[color]);
-        const splashW = this.currentWidth * SPLASH_TUBE_WIDTH_RATIO;
+        const splashW = this.currentWidth * TUNING.SPLASH_TUBE_WIDTH_RATIO;
         splashSprite.setDisplaySize(splashW, splashW * (splashSprite.height / splashSprite.width));
         splashSprite.setOrigin(0.5, 1);
-        const splashY = surfaceY + splashSprite.displayHeight * SPLASH_VERTICAL_OFFSET_RATIO;
+        const splashY = surfaceY + splashSprite.displayHeight * TUNING.SPLASH_VERTICAL_OFFSET_RATIO;
         splashSprite.setPosition(0, splashY);
         this.add(splashSprite);
         this.moveTo(splashSprite, this.getSplashInsertIndex(splashY));
@@ -921,10 +971,10 @@ export class Tube extends Phaser.GameObjects.Container {
         const splashSprite = this.scene.add.sprite(0, startSurfaceY, 'splash_00000');
         splashSprite.setData('isLiquidSplash', true);
         splashSprite.setTintFill(getLiquidColors()[color]);
-        const splashW = this.currentWidth * SPLASH_TUBE_WIDTH_RATIO;
+        const splashW = this.currentWidth * TUNING.SPLASH_TUBE_WIDTH_RATIO;
         splashSprite.setDisplaySize(splashW, splashW * (splashSprite.height / splashSprite.width));
         splashSprite.setOrigin(0.5, 1);
-        const splashY0 = startSurfaceY + splashSprite.displayHeight * SPLASH_VERTICAL_OFFSET_RATIO;
+        const splashY0 = startSurfaceY + splashSprite.displayHeight * TUNING.SPLASH_VERTICAL_OFFSET_RATIO;
         splashSprite.setPosition(0, splashY0);
         this.add(splashSprite);
         this.moveTo(splashSprite, this.getSplashInsertIndex(splashY0));
@@ -941,12 +991,12 @@ export class Tube extends Phaser.GameObjects.Container {
             this.waterRiseTween = this.scene.tweens.add({
                 targets: this,
                 addingBallHeight: unitHeight,
-                duration: WATER_RISE_DURATION,
+                duration: TUNING.WATER_RISE_DURATION,
                 ease: 'Quad.easeOut',
                 onUpdate: () => {
                     this.drawLiquidThrottled(33); // 约 30fps 重绘，减轻交互卡顿
                     const surfaceY = startSurfaceY - this.addingBallHeight;
-                    splashSprite.setPosition(0, surfaceY + splashSprite.displayHeight * SPLASH_VERTICAL_OFFSET_RATIO);
+                    splashSprite.setPosition(0, surfaceY + splashSprite.displayHeight * TUNING.SPLASH_VERTICAL_OFFSET_RATIO);
                 },
                 onComplete: () => {
                     this.waterRiseTween = null;
@@ -1009,9 +1059,9 @@ export class Tube extends Phaser.GameObjects.Container {
         const color = topBall.color;
         const result: Ball[] = [];
         
-        // 从上往下遍历
+        // 从上往下遍历，遇到神秘层停止
         for (let i = this.balls.length - 1; i >= 0; i--) {
-            if (this.balls[i].color === color) {
+            if (this.balls[i].color === color && !this.balls[i].isHidden) {
                 result.push(this.balls[i]);
             } else {
                 break;
@@ -1058,7 +1108,7 @@ export class Tube extends Phaser.GameObjects.Container {
     }
 
     public isFull(): boolean {
-        return this.balls.length >= GAME_CONFIG.TUBE_CAPACITY;
+        return this.balls.length >= this.capacity;
     }
 
     public isEmpty(): boolean {
@@ -1073,13 +1123,15 @@ export class Tube extends Phaser.GameObjects.Container {
     }
 
     public checkCompletion() {
-        if (this.balls.length !== GAME_CONFIG.TUBE_CAPACITY) return;
-
-        const firstColor = this.balls[0].color;
-        const allSameColor = this.balls.every(ball => ball.color === firstColor);
+        const isFull = this.balls.length === this.capacity;
+        const firstColor = this.balls[0]?.color;
+        const allSameColor = isFull && this.balls.every(ball => ball.color === firstColor);
 
         if (allSameColor && !this.isCompleted) {
             this.completeTube(firstColor);
+        } else if (!allSameColor && this.isCompleted) {
+            // 撤销移动把球从已完成试管取走：恢复为普通试管
+            this.uncompleteTube();
         }
     }
 
@@ -1097,16 +1149,16 @@ export class Tube extends Phaser.GameObjects.Container {
 
         // 条件：不为空、不为满
         const notEmpty = this.balls.length > 0;
-        const notFull = this.balls.length < GAME_CONFIG.TUBE_CAPACITY;
+        const notFull = this.balls.length < this.capacity;
         
         if (!notEmpty || !notFull) {
             this.hideSameColorHighlight();
             return;
         }
 
-        // 检查是否只有一种颜色
+        // 检查是否只有一种颜色（含神秘层时不高亮，避免提前泄露颜色）
         const firstColor = this.balls[0].color;
-        const onlyOneColor = this.balls.every(ball => ball.color === firstColor);
+        const onlyOneColor = this.balls.every(ball => ball.color === firstColor && !ball.isHidden);
         
         if (onlyOneColor) {
             this.showSameColorHighlight(firstColor);
@@ -1188,8 +1240,57 @@ export class Tube extends Phaser.GameObjects.Container {
         });
     }
 
+    /**
+     * 撤销完成状态：移除蜡烛、火焰与特效，恢复试管和球的显示
+     * 完成动画尚未播完时也可调用（会中止动画，不再发送 tube-complete-internal）
+     */
+    public uncompleteTube() {
+        if (!this.isCompleted) return;
+        this.isCompleted = false;
+        this.isCompletionAnimating = false;
+
+        const fadeTargets = [
+            this.tubeBodyImage,
+            this.tubeMouthImage,
+            this.highlightBodyImage,
+            this.highlightMouthImage,
+            ...this.balls
+        ];
+        this.scene.tweens.killTweensOf(fadeTargets);
+
+        this.tubeBodyImage.setVisible(true).setAlpha(1);
+        this.tubeMouthImage.setVisible(true).setAlpha(1);
+        this.highlightBodyImage.setVisible(true).setAlpha(0);
+        this.highlightMouthImage.setVisible(true).setAlpha(0);
+        this.balls.forEach(ball => ball.setVisible(true).setAlpha(1));
+
+        if (this.candleImage) {
+            this.scene.tweens.killTweensOf(this.candleImage);
+            this.candleImage.destroy();
+            this.candleImage = null;
+        }
+        if (this.fireSprite) {
+            this.scene.tweens.killTweensOf(this.fireSprite);
+            this.fireSprite.destroy();
+            this.fireSprite = null;
+        }
+        if (this.particleEffect) {
+            this.particleEffect.destroy();
+            this.particleEffect = null;
+        }
+        if (this.fireworkEffect) {
+            this.fireworkEffect.destroy();
+            this.fireworkEffect = null;
+        }
+
+        this.checkSameColorHighlight();
+    }
+
     private completeTube(color: BallColor) {
         this.isCompleted = true;
+        this.isCompletionAnimating = true;
+        // 已完成的试管全部揭开（与 BoardState 一致）
+        this.balls.forEach(ball => { ball.isHidden = false; });
         
         // 停止过渡动画
         if (this.highlightTween) {
@@ -1315,6 +1416,7 @@ export class Tube extends Phaser.GameObjects.Container {
             duration: 1000,
             ease: 'Power2',
             onComplete: () => {
+                this.isCompletionAnimating = false;
                 // 动画完成后再通知试管完成
                 // Board.ts 通过监听 tube-complete-internal 来统计完成数并发送正确的 tube-completed 事件
                 EventBus.emit('tube-complete-internal', this.id);
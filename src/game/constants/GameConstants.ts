@@ -31,58 +31,60 @@ export const DEFAULT_LIQUID_COLORS: { [key in BallColor]: number } = {
     [BallColor.YELLOW]: 0xFFFF00
 };
 
-/** 液体球帧动画的 displayWidth 相对试管 displayWidth 的比例，便于调试 */
-export const LIQUID_BALL_DISPLAY_WIDTH_RATIO = 1.2;
-
-/** 水球整体尺寸倍数，可调小水球：1.0 为默认，<1 缩小（如 0.8、0.9） */
-export const LIQUID_BALL_SIZE_SCALE = 1.3;
-
-/** 圆球表情在小球上的位置偏移（相对小球中心），可调整：X 正值向右，Y 正值向下 */
-export const BALL_EXPRESSION_OFFSET_X = 0;
-export const BALL_EXPRESSION_OFFSET_Y = 0;
-
-/** 圆球表情在小球上的尺寸倍数，1.0 为默认，可调整：>1 放大，<1 缩小 */
-export const BALL_EXPRESSION_SCALE_RATIO = 0.9;
-
-/** 水花 displayWidth 相对试管宽度的比例，便于调试 */
-export const SPLASH_TUBE_WIDTH_RATIO = 1.1;
-
-/** 水花位置垂直偏移补正：为水花高度的比例，正值向下（暂定 0.2 = 20%） */
-export const SPLASH_VERTICAL_OFFSET_RATIO = 0.2;
-
-/** 水花动画播放帧率，越大越快（默认 30） */
-export const SPLASH_FRAME_RATE = 60;
-
-/** 液体上升动画播放帧率，越大越快（默认 30） */
-export const LIQUID_UP_FRAME_RATE = 40;
-
-/** 小球选中飞起动画时长（ms），越小越快 */
-export const BALL_RISE_DURATION = 100;
-
-/** 小球落回试管动画时长（ms），越小越快 */
-export const BALL_DROP_DURATION = 60;
-
-/** 小球跨试管移动：已悬浮顶球快速调整时长（ms），越小越快 */
-export const BALL_MOVE_RISE_ALREADY_HOVER = 1;
-/** 小球跨试管移动：从试管内上升到试管口上方的时长（ms），越小越快 */
-export const BALL_MOVE_RISE_NORMAL = 100;
-
-/** 小球跨试管移动：弧线飞行时长（ms），越小越快 */
-export const BALL_MOVE_ARC_TIME = 60;
+/** 隐藏层（神秘层）的液体色值与「?」标记颜色 */
+export const HIDDEN_LIQUID_COLOR = 0x4A4A5E;
+export const HIDDEN_MARK_COLOR = '#FFFFFF';
+
+/**
+ * 动画与尺寸调参默认值
+ * 可被 output-config.json 的 tuning 覆盖；开发版可用调参面板实时修改并导出为 output-config 补丁
+ */
+export const DEFAULT_TUNING = {
+    /** 液体球帧动画的 displayWidth 相对试管 displayWidth 的比例 */
+    LIQUID_BALL_DISPLAY_WIDTH_RATIO: 1.2,
+    /** 水球整体尺寸倍数，可调小水球：1.0 为默认，<1 缩小（如 0.8、0.9） */
+    LIQUID_BALL_SIZE_SCALE: 1.3,
+    /** 圆球表情在小球上的位置偏移（相对小球中心），X 正值向右，Y 正值向下 */
+    BALL_EXPRESSION_OFFSET_X: 0,
+    BALL_EXPRESSION_OFFSET_Y: 0,
+    /** 圆球表情在小球上的尺寸倍数，1.0 为默认，>1 放大，<1 缩小 */
+    BALL_EXPRESSION_SCALE_RATIO: 0.9,
+    /** 水花 displayWidth 相对试管宽度的比例 */
+    SPLASH_TUBE_WIDTH_RATIO: 1.1,
+    /** 水花位置垂直偏移补正：为水花高度的比例，正值向下（暂定 0.2 = 20%） */
+    SPLASH_VERTICAL_OFFSET_RATIO: 0.2,
+    /** 水花动画播放帧率，越大越快（默认 30） */
+    SPLASH_FRAME_RATE: 60,
+    /** 液体上升动画播放帧率，越大越快（默认 30） */
+    LIQUID_UP_FRAME_RATE: 40,
+    /** 小球选中飞起动画时长（ms），越小越快 */
+    BALL_RISE_DURATION: 100,
+    /** 小球落回试管动画时长（ms），越小越快 */
+    BALL_DROP_DURATION: 60,
+    /** 小球跨试管移动：已悬浮顶球快速调整时长（ms），越小越快 */
+    BALL_MOVE_RISE_ALREADY_HOVER: 1,
+    /** 小球跨试管移动：从试管内上升到试管口上方的时长（ms），越小越快 */
+    BALL_MOVE_RISE_NORMAL: 100,
+    /** 小球跨试管移动：弧线飞行时长（ms），越小越快 */
+    BALL_MOVE_ARC_TIME: 60,
+    /** 小球跨试管移动：每颗球启动的间隔（ms），用于多球联动 */
+    BALL_MOVE_START_DELAY: 50,
+    /** 试管内液体水平面上升动画时长（ms），球落定后水位渐升 */
+    WATER_RISE_DURATION: 50
+};
 
-/** 小球跨试管移动：每颗球启动的间隔（ms），用于多球联动 */
-export const BALL_MOVE_START_DELAY = 50;
+export type TuningKey = keyof typeof DEFAULT_TUNING;
 
-/** 试管内液体水平面上升动画时长（ms），球落定后水位渐升 */
-export const WATER_RISE_DURATION = 50;
+/** 当前生效的调参值（运行时读取这里；加载配置与调参面板会修改它） */
+export const TUNING: { [key in TuningKey]: number } = { ...DEFAULT_TUNING };
 
 export const GAME_CONFIG = {
-    TUBE_CAPACITY: 8,
+    TUBE_CAPACITY: 8, // 默认容量，关卡可通过 levelShapes / tubeCapacity 覆盖
     BALL_SPACING: 2,
     BALL_SIZE: 82,
-    TUBE_COUNT: 14,
+    TUBE_COUNT: 14, // 默认试管数，关卡可通过 levelShapes / tubeCount 覆盖
     TUBE_ROWS: 2,
-    TUBE_COLS: 7,
+    TUBE_COLS: 7, // 每行最多试管数，超出时分行
     CANDLE_SCALE_FACTOR: 1.12, // 蜡烛额外缩放系数
     
     // 竖屏布局
@@ -1,50 +1,72 @@
 import { EventBus } from './EventBus';
+import { decodePuzzleCode, DecodedPuzzle } from '../utils/puzzle-code';
+import { findLevelIndex } from '../utils/level-list';
 
-/** 选关 1/2/3 对应难度 1/5/9（ballsort 难度 1-10） */
-const LEVEL_TO_DIFFICULTY: Record<number, number> = {
-  1: 1,
-  2: 5,
-  3: 9,
-};
-
-let persistentSelectedDifficulty = 1;
+/** 当前关卡在关卡列表（puzzles-config.json 的 levels）中的序号，从 0 开始 */
+let persistentSelectedLevel = 0;
 let initialLevelFromURL: number | null = null;
 let userHasSelectedFromUI = false;
+let puzzleFromURL: DecodedPuzzle | null = null;
+let editorRequested = false;
 
-/** 支持 ?level=1,2,3 -> 难度 1,5,9 */
+/** 支持 ?level=<关卡 id 或从 1 开始的序号> */
 function resolveLevelFromParam(rawValue: string | null): number | null {
   if (!rawValue || typeof window === 'undefined') return null;
-  const normalized = rawValue.trim().toLowerCase();
+  const normalized = rawValue.trim();
   if (!normalized) return null;
-  const num = Number(normalized);
-  if (Number.isInteger(num) && num >= 1 && num <= 3) {
-    return LEVEL_TO_DIFFICULTY[num];
+  return findLevelIndex(normalized);
+}
+
+/** 支持 ?puzzle=<分享码>：直接加载指定布局（试管数、容量、隐藏层与倒入规则随分享码） */
+function resolvePuzzleFromParam(rawValue: string | null): DecodedPuzzle | null {
+  if (!rawValue) return null;
+  try {
+    return decodePuzzleCode(rawValue);
+  } catch (e) {
+    console.warn('[levelSelection] ?puzzle= 解析失败，已忽略:', e);
+    return null;
   }
-  return null;
 }
 
 if (typeof window !== 'undefined') {
   const params = new URLSearchParams(window.location.search);
   const resolved = resolveLevelFromParam(params.get('level'));
   if (resolved !== null) {
-    persistentSelectedDifficulty = resolved;
-    initialLevelFromURL = 1;
+    persistentSelectedLevel = resolved;
+    initialLevelFromURL = resolved;
+  }
+  puzzleFromURL = resolvePuzzleFromParam(params.get('puzzle'));
+  // ?editor=1：开发版进入关卡编辑器
+  editorRequested = !!import.meta.env?.DEV && params.get('editor') === '1';
+  if (puzzleFromURL || editorRequested) {
+    // 指定了布局或进入编辑器时跳过选关界面
+    initialLevelFromURL = initialLevelFromURL ?? persistentSelectedLevel;
   }
 }
 
+/** 是否以 ?editor=1 打开关卡编辑器（仅开发版） */
+export function isEditorRequested(): boolean {
+  return editorRequested;
+}
+
+/** ?puzzle= 指定的布局（不经过 puzzleCache），未指定或无效时为 null */
+export function getPuzzleFromURL(): DecodedPuzzle | null {
+  return puzzleFromURL;
+}
+
 export function getInitialLevelFromURL(): number | null {
   return initialLevelFromURL;
 }
 
 export function getPersistentSelectedLevel(): number {
-  return persistentSelectedDifficulty;
+  return persistentSelectedLevel;
 }
 
-/** 传入难度 1/5/9，选关 1/2/3 对应 1/5/9 */
-export function setPersistentSelectedLevel(difficulty: number) {
-  persistentSelectedDifficulty = difficulty;
+/** 传入关卡序号（从 0 开始）；选关界面点击与通关后的「下一关」都走这里 */
+export function setPersistentSelectedLevel(levelIndex: number) {
+  persistentSelectedLevel = levelIndex;
   userHasSelectedFromUI = true;
-  EventBus.emit('level-selected', difficulty);
+  EventBus.emit('level-selected', levelIndex);
 }
 
 /** 是否已有可用关卡（来自 URL 或用户已点击选关） */
@@ -5,6 +5,7 @@ import { Game as MainGame } from './scenes/Game';
 import { AUTO, Game } from 'phaser';
 import { Preloader } from './scenes/Preloader';
 import { SpineTestScene } from './scenes/SpineTestScene';
+import { LevelEditor } from './scenes/LevelEditor';
 import { SpinePlugin } from '@esotericsoftware/spine-phaser-v3';
 
 //  Find out more information about the Game Config at:
@@ -24,6 +25,8 @@ const config: Phaser.Types.Core.GameConfig = {
         MainGame,
         GameOver,
         SpineTestScene,
+        // 关卡编辑器仅开发版注册（?editor=1）
+        ...(import.meta.env.DEV ? [LevelEditor] : []),
         // MainGameLand
     ],
     plugins: {
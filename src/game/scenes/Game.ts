@@ -1,19 +1,64 @@
 import { Scene } from 'phaser';
 import { EventBus } from '../EventBus';
 import { Board } from '../components/Board';
+import { isSidePanelLayout } from '../utils/BoardLayout';
 import { isPerfEnabled, initPerf, recordBoardUpdate, tickPerf } from '../../utils/perfLogger';
 import download from './constants/download';
+import { notifyGameEnd, notifyGameReady } from '../../ad-network';
 import { getOutputConfigAsync } from '../../utils/outputConfigLoader';
-import { getDownloadText } from '../../utils/i18n';
-import { getCachedPuzzle } from '../../utils/puzzleCache';
-import { getOutputConfigValueAsync } from '../../utils/outputConfigLoader';
-import { generatePuzzleWithAdapter } from '../../utils/puzzle-adapter';
+import { getAddTubeText, getDownloadText, getHintText, getMovesText, getNextLevelText, getRetryText, getUndoText } from '../../utils/i18n';
+import { getLevelPuzzleAsync } from '../../utils/puzzleCache';
+import { LevelLimits } from '../../utils/outputConfigLoader';
+import { getLevelAsync, getLevelCount } from '../../utils/level-list';
+import { setPersistentSelectedLevel } from '../levelSelection';
+import { puzzleResultFromTubes } from '../../utils/puzzle-adapter';
+import { encodePuzzleCode } from '../../utils/puzzle-code';
+import { MoveLog, parseMoveLog, serializeMoveLog } from '../../utils/move-recorder';
+import { CtaAction, CtaMetric, CtaRule, CtaTriggerEngine, resolveCtaRules } from '../../utils/cta-trigger';
+import { TUNING } from '../constants/GameConstants';
+import type { LevelEditorDraft } from '../../utils/level-editor';
 
-// 配置类型定义
+// 配置类型定义（CTA 阈值见 resolveCtaRules）
 interface GameConfig {
-    jumpStepCount: number;
-    completedTubeCount: number;
     showPopup: boolean;
+    /** 加管道具可用次数，小于 0 表示不限 */
+    addButtonUseLimit: number;
+    /** 提示按钮可用次数，小于 0 表示不限 */
+    hintButtonUseLimit: number;
+}
+
+// 场景启动参数（重试时原样重启）
+interface GameSceneData {
+    puzzle?: any;
+    difficulty?: number;
+    emptyTubeCount?: number;
+    /** 关卡序号（从 0 开始） */
+    levelIndex?: number;
+    replay?: MoveLog;
+    /** 从关卡编辑器试玩时的编辑状态：关闭 CTA 与失败条件，可返回编辑器 */
+    editor?: LevelEditorDraft;
+}
+
+// 携带累计值的 Board 事件与 CTA 指标的对应关系
+const CTA_COUNTER_EVENTS: Record<string, CtaMetric> = {
+    'jump-step': 'pours',
+    'pour-merged': 'merges',
+    'tube-completed': 'completedTubes',
+};
+
+// 道具按钮（加管 / 提示）：按钮容器与右上角剩余次数角标
+interface BoosterButton {
+    container: Phaser.GameObjects.Container;
+    countText: Phaser.GameObjects.Text;
+}
+
+// 调试模式（?debug=1）下供 QA 在控制台导出/回放移动记录
+declare global {
+    interface Window {
+        __moveLog?: () => string | null;
+        __puzzleCode?: () => string;
+        __replayMoveLog?: (text: string) => void;
+    }
 }
 
 export class Game extends Scene
@@ -21,6 +66,10 @@ export class Game extends Scene
     private downloadBtn: Phaser.GameObjects.Image;
     private downloadBtnContainer: Phaser.GameObjects.Container;
     private iconBtn: Phaser.GameObjects.Image; // 左上角icon
+    private addTubeButton: BoosterButton | null = null; // 加管道具按钮
+    private hintButton: BoosterButton | null = null; // 提示按钮
+    private addTubeUses: number = 0;
+    private hintUses: number = 0;
     private resizeHandler: () => void;
     private board: Board;
     private debugText: Phaser.GameObjects.Text | null = null;
@@ -35,20 +84,31 @@ export class Game extends Scene
     
     // 配置相关
     private gameConfig: GameConfig = {
-        jumpStepCount: 999,
-        completedTubeCount: 999,
-        showPopup: true
+        showPopup: true,
+        addButtonUseLimit: 1,
+        hintButtonUseLimit: -1
     };
-    private hasTriggeredDownload: boolean = false;
+    private ctaRules: CtaRule[] = [];
+    private ctaTriggers: CtaTriggerEngine | null = null;
     private currentDifficulty: number = 1;
-    private currentEmptyTubeCount: number = 2;
+    private currentLevelIndex: number = 0;
+    private sceneData: GameSceneData = {};
+
+    // 失败条件（步数 / 倒计时）
+    private levelLimits: LevelLimits = { moveLimit: 0, timeLimit: 0 };
+    private movesUsed: number = 0;
+    private timeLeftMs: number = 0;
+    private timerStarted: boolean = false;
+    private hasFailed: boolean = false;
+    private limitHud: Phaser.GameObjects.Text | null = null;
+    private editorButton: Phaser.GameObjects.Text | null = null;
 
     constructor ()
     {
         super('Game');
     }
 
-    async create (data?: { puzzle?: any; difficulty?: number; emptyTubeCount?: number })
+    async create (data?: GameSceneData)
     {
         const tCreate = performance.now();
         this.cameras.main.setBackgroundColor('rgba(0, 0, 0, 0)');
@@ -57,17 +117,34 @@ export class Game extends Scene
         await this.loadConfig();
         console.log('[TIMING] loadConfig完成', { t: performance.now(), d: (performance.now() - tCreate).toFixed(0) + 'ms' });
 
-        // 记录当前难度
+        // 记录当前关卡与难度
         this.currentDifficulty = data?.difficulty ?? 1;
-        this.currentEmptyTubeCount = data?.emptyTubeCount ?? 2;
+        this.currentLevelIndex = data?.levelIndex ?? 0;
+        this.sceneData = { ...data, replay: undefined };
+
+        // 失败条件（回放与编辑器试玩时不启用）
+        const level = await getLevelAsync(this.currentLevelIndex);
+        this.levelLimits = data?.replay || data?.editor ? { moveLimit: 0, timeLimit: 0 } : { moveLimit: level.moveLimit, timeLimit: level.timeLimit };
+        if (data?.editor) this.ctaRules = [];
 
         // 创建游戏区域，传入 Preloader 阶段生成的谜题和配置（如果存在）
         const tBoard = performance.now();
         this.board = new Board(this, data?.puzzle, data?.difficulty, data?.emptyTubeCount);
         console.log('[TIMING] Board创建完成', { t: performance.now(), d: (performance.now() - tBoard).toFixed(0) + 'ms' });
 
-        // 创建下载按钮
+        // 回放移动记录（由 replayMoveLog 重启场景时传入）
+        if (data?.replay) {
+            this.board.playMoveLog(data.replay);
+        }
+
+        // 创建下载按钮与道具按钮（次数按关卡重新计算）
         this.createDownloadButton();
+        this.addTubeUses = 0;
+        this.hintUses = 0;
+        this.addTubeButton = this.createBoosterButton(getAddTubeText(), () => this.useAddTube());
+        this.hintButton = this.createBoosterButton(getHintText(), () => this.useHint());
+        this.updateBoosterButtons();
+        this.createEditorButton(data?.editor);
 
         // 初始化场景大小
         this.updateGameSize();
@@ -79,28 +156,49 @@ export class Game extends Scene
         // 监听游戏胜利事件
         EventBus.on('game-over', this.showVictoryPopup, this);
         
-        // 监听死局事件
+        // 监听死局事件（无合法移动 / 仍有移动但已无法获胜）
         EventBus.on('game-deadlock', this.showDeadlockPopup, this);
+        EventBus.on('game-unwinnable', this.showDeadlockPopup, this);
         
-        // 监听计数器事件
-        EventBus.on('jump-step', this.onJumpStep, this);
-        EventBus.on('tube-completed', this.onTubeCompleted, this);
+        // CTA 触发：Board 计数事件、原始点击与游戏时长喂给规则引擎
+        this.initCtaTriggers();
+        this.initLevelLimits();
+
+        // 局面变化（含胜利）后刷新道具按钮是否可用
+        EventBus.on('history-changed', this.updateBoosterButtons, this);
+        this.events.once('shutdown', () => EventBus.off('history-changed', this.updateBoosterButtons, this));
+
+        // 开发版调参面板修改帧率后同步到液体动画
+        EventBus.on('tuning-changed', this.applyAnimationTuning, this);
+        this.events.once('shutdown', () => EventBus.off('tuning-changed', this.applyAnimationTuning, this));
 
         // 首次交互后启动 BGM（Phaser 播放，不经过 EventBus）
         this.input.once('pointerdown', () => this.tryStartBGM());
         this.input.once('pointerup', () => this.tryStartBGM());
 
-        // 用户选关后：如果难度不同则用新谜题重启场景
+        // 用户选关或通关进入下一关后：如果关卡不同则用新谜题重启场景
         EventBus.on('level-selected', this.onLevelSelected, this);
 
         // 广告显示/暂停时暂停/恢复 Phaser 音频
         EventBus.on('pauseAd', this.pauseGameSound, this);
         EventBus.on('showAd', this.resumeGameSound, this);
 
+        // 场景重启/切换时移除上面的监听，避免重复注册
+        this.events.once('shutdown', () => {
+            window.removeEventListener('resize', this.resizeHandler);
+            EventBus.off('game-over', this.showVictoryPopup, this);
+            EventBus.off('game-deadlock', this.showDeadlockPopup, this);
+            EventBus.off('game-unwinnable', this.showDeadlockPopup, this);
+            EventBus.off('level-selected', this.onLevelSelected, this);
+            EventBus.off('pauseAd', this.pauseGameSound, this);
+            EventBus.off('showAd', this.resumeGameSound, this);
+        });
+
         this.initDebugOverlay();
         if (isPerfEnabled()) initPerf();
 
         console.log('[TIMING] 关卡加载完成', { t: performance.now(), ts: new Date().toISOString() });
+        notifyGameReady();
         EventBus.emit('current-scene-ready', this);
     }
 
@@ -120,17 +218,31 @@ export class Game extends Scene
         this.sound.resumeAll();
     }
 
-    private async onLevelSelected(difficulty: number) {
-        if (difficulty === this.currentDifficulty) return;
-        const emptyTubeCount = this.currentEmptyTubeCount;
-        const cached = getCachedPuzzle(difficulty, emptyTubeCount);
-        if (cached) {
-            this.scene.restart(cached);
-        } else {
-            const etc = await getOutputConfigValueAsync<number>('emptyTubeCount', 2);
-            const puzzle = generatePuzzleWithAdapter({ difficulty, emptyTubeCount: Math.max(1, Math.min(6, etc)) });
-            this.scene.restart({ puzzle, difficulty, emptyTubeCount: Math.max(1, Math.min(6, etc)) });
-        }
+    private async onLevelSelected(levelIndex: number) {
+        if (levelIndex === this.currentLevelIndex) return;
+        this.scene.restart(await getLevelPuzzleAsync(levelIndex));
+    }
+
+    /** 是否还有下一关（编辑器试玩时没有） */
+    private hasNextLevel(): boolean {
+        return !this.sceneData.editor && this.currentLevelIndex + 1 < getLevelCount();
+    }
+
+    /**
+     * 编辑器试玩时右上角显示「返回编辑器」，带回编辑状态
+     */
+    private createEditorButton(editor?: LevelEditorDraft) {
+        this.editorButton = null;
+        if (!editor) return;
+        this.editorButton = this.add.text(0, 0, '← 编辑器', {
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '32px',
+            color: '#ffffff',
+            backgroundColor: '#3a3f58',
+            padding: { x: 18, y: 10 }
+        });
+        this.editorButton.setOrigin(1, 0).setDepth(12000).setInteractive({ useHandCursor: true });
+        this.editorButton.on('pointerdown', () => this.scene.start('LevelEditor', editor));
     }
 
     /**
@@ -145,7 +257,8 @@ export class Game extends Scene
             fontSize: '18px',
             color: '#00ff88',
             backgroundColor: 'rgba(0, 0, 0, 0.5)',
-            padding: { x: 6, y: 4 }
+            padding: { x: 6, y: 4 },
+            wordWrap: { width: this.scale.gameSize.width - 20, useAdvancedWrap: true }
         });
         this.debugText.setDepth(20000);
         this.debugText.setScrollFactor(0);
@@ -157,14 +270,33 @@ export class Game extends Scene
         });
         this.updateDebugOverlay();
 
+        window.__moveLog = () => {
+            const log = this.board?.getMoveLog();
+            return log ? serializeMoveLog(log) : null;
+        };
+        window.__replayMoveLog = (text: string) => this.replayMoveLog(parseMoveLog(text));
+        window.__puzzleCode = () => this.getPuzzleCode();
+
         this.events.once('shutdown', () => {
             if (this.debugTimer) this.debugTimer.remove(false);
             if (this.debugText) this.debugText.destroy();
             this.debugTimer = null;
             this.debugText = null;
+            delete window.__moveLog;
+            delete window.__replayMoveLog;
+            delete window.__puzzleCode;
         });
     }
 
+    /**
+     * 用记录的开局重启场景并按原时间轴回放
+     */
+    private replayMoveLog(log: MoveLog) {
+        const puzzle = puzzleResultFromTubes(log.tubes, log.seed ?? 0, log.capacity, log.hidden, log.pourRules);
+        const emptyTubeCount = log.tubes.filter(tube => tube.length === 0).length;
+        this.scene.restart({ puzzle, difficulty: this.currentDifficulty, emptyTubeCount, levelIndex: this.currentLevelIndex, replay: log });
+    }
+
     private updateDebugOverlay() {
         if (!this.debugText || !this.board) return;
 
@@ -194,12 +326,20 @@ export class Game extends Scene
             `ReturnBoundary: ${boardStats.returnBoundaryCount} AddingBlock: ${boardStats.addingBlockCount}`,
             `DrawLiquid/0.5s: ${totalDrawCalls}`,
             `Board.update ms (avg/max): ${updateAvg} / ${updateMax}`,
-            memLine
+            memLine,
+            `Puzzle: ${this.getPuzzleCode()}`
         ].join('\n'));
     }
 
+    /** 当前局面的分享码（含隐藏掩码与倒入规则） */
+    private getPuzzleCode(): string {
+        return encodePuzzleCode(this.board.getTubeContents(), this.board.getCapacity(), this.board.getHiddenMask(), this.board.getPourRules());
+    }
+
     update(time: number, delta: number) {
         if (!this.board) return;
+        this.ctaTriggers?.add('elapsedMs', delta);
+        this.tickTimeLimit(delta);
         const t0 = performance.now();
         this.board.update(time, delta);
         const t1 = performance.now();
@@ -217,48 +357,152 @@ export class Game extends Scene
     private async loadConfig() {
         try {
             const config = await getOutputConfigAsync();
-            if (config.jumpStepCount !== undefined) {
-                this.gameConfig.jumpStepCount = config.jumpStepCount;
-            }
-            if (config.completedTubeCount !== undefined) {
-                this.gameConfig.completedTubeCount = config.completedTubeCount;
-            }
+            this.applyAnimationTuning();
+            this.ctaRules = resolveCtaRules(config);
             if (config.showPopup !== undefined) {
                 this.gameConfig.showPopup = config.showPopup;
             }
+            if (typeof config.addButtonUseLimit === 'number') {
+                this.gameConfig.addButtonUseLimit = config.addButtonUseLimit;
+            }
+            if (typeof config.hintButtonUseLimit === 'number') {
+                this.gameConfig.hintButtonUseLimit = config.hintButtonUseLimit;
+            }
         } catch (error) {
             console.warn('Failed to load game config, using defaults:', error);
         }
     }
     
     /**
-     * 处理跳转步数变化
+     * 液体动画在 Preloader 中按当时的 TUNING 创建，配置加载或调参后按当前帧率重算时长（对之后播放的动画生效）
      */
-    private onJumpStep(count: number) {
-        if (count >= this.gameConfig.jumpStepCount) {
-            this.triggerDownloadAction();
+    private applyAnimationTuning() {
+        const frameRates: Record<string, number> = {
+            liquid_up: TUNING.LIQUID_UP_FRAME_RATE,
+            liquid_splash: TUNING.SPLASH_FRAME_RATE,
+        };
+        for (const [key, frameRate] of Object.entries(frameRates)) {
+            const anim = this.anims.get(key);
+            if (anim && anim.frameRate !== frameRate) {
+                anim.calculateDuration(anim, anim.getTotalFrames(), undefined, frameRate);
+            }
         }
     }
-    
+
+    /**
+     * 创建 CTA 触发引擎并接入计数来源（每次进入场景重新计数）
+     */
+    private initCtaTriggers() {
+        this.ctaTriggers = new CtaTriggerEngine(this.ctaRules, rule => this.triggerDownloadAction(rule.action));
+
+        const counterHandlers = Object.entries(CTA_COUNTER_EVENTS).map(([event, metric]) => {
+            const handler = (count: number) => this.ctaTriggers?.set(metric, count);
+            EventBus.on(event, handler);
+            return () => EventBus.off(event, handler);
+        });
+        const onTap = () => this.ctaTriggers?.add('taps');
+        this.input.on('pointerdown', onTap);
+
+        this.events.once('shutdown', () => {
+            counterHandlers.forEach(off => off());
+            this.input.off('pointerdown', onTap);
+            this.ctaTriggers = null;
+        });
+    }
+
+    /**
+     * 步数/时间上限：有任一上限时创建 HUD，步数随 jump-step 累计，倒计时在首次点击后开始
+     */
+    private initLevelLimits() {
+        this.movesUsed = 0;
+        this.timeLeftMs = this.levelLimits.timeLimit * 1000;
+        this.timerStarted = false;
+        this.hasFailed = false;
+        this.limitHud = null;
+        if (!this.levelLimits.moveLimit && !this.levelLimits.timeLimit) return;
+
+        this.limitHud = this.add.text(0, 0, '', {
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '44px',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            stroke: '#00000080',
+            strokeThickness: 6,
+            align: 'center'
+        });
+        this.limitHud.setOrigin(0.5, 0.5);
+        this.updateLimitHud();
+
+        const onMove = (count: number) => {
+            this.movesUsed = count;
+            this.updateLimitHud();
+            if (this.levelLimits.moveLimit && count >= this.levelLimits.moveLimit && !this.board.isSolved()) {
+                this.failLevel();
+            }
+        };
+        const onFirstTap = () => { this.timerStarted = true; };
+        EventBus.on('jump-step', onMove);
+        this.input.once('pointerdown', onFirstTap);
+        this.events.once('shutdown', () => {
+            EventBus.off('jump-step', onMove);
+            this.input.off('pointerdown', onFirstTap);
+        });
+    }
+
     /**
-     * 处理完成试管数变化
+     * 倒计时：弹窗打开、已胜利或已失败时暂停
      */
-    private onTubeCompleted(count: number) {
-        if (count >= this.gameConfig.completedTubeCount) {
-            this.triggerDownloadAction();
+    private tickTimeLimit(delta: number) {
+        if (!this.levelLimits.timeLimit || !this.timerStarted || this.hasFailed) return;
+        if (this.victoryPopup || this.board.isSolved()) return;
+
+        const secondsBefore = Math.ceil(this.timeLeftMs / 1000);
+        this.timeLeftMs = Math.max(0, this.timeLeftMs - delta);
+        if (Math.ceil(this.timeLeftMs / 1000) !== secondsBefore) {
+            this.updateLimitHud();
+        }
+        if (this.timeLeftMs <= 0) {
+            this.failLevel();
         }
     }
-    
+
+    private updateLimitHud() {
+        if (!this.limitHud) return;
+        const lines: string[] = [];
+        let urgent = false;
+        if (this.levelLimits.moveLimit) {
+            const movesLeft = Math.max(0, this.levelLimits.moveLimit - this.movesUsed);
+            lines.push(`${getMovesText()}: ${movesLeft}`);
+            urgent = urgent || movesLeft <= 3;
+        }
+        if (this.levelLimits.timeLimit) {
+            const secondsLeft = Math.ceil(this.timeLeftMs / 1000);
+            lines.push(`${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`);
+            urgent = urgent || secondsLeft <= 10;
+        }
+        this.limitHud.setText(lines.join('  '));
+        this.limitHud.setColor(urgent ? '#ff5050' : '#ffffff');
+    }
+
     /**
-     * 触发下载动作（根据配置显示弹窗或直接下载）
+     * 步数或时间用尽：停止棋盘操作，稍后（等最后一次倒入落定）显示失败弹窗
      */
-    private triggerDownloadAction() {
-        if (this.hasTriggeredDownload) return;
-        this.hasTriggeredDownload = true;
-        
-        if (this.gameConfig.showPopup) {
+    private failLevel() {
+        if (this.hasFailed) return;
+        this.hasFailed = true;
+        this.board.fail();
+        this.updateBoosterButtons();
+        this.time.delayedCall(600, () => this.showFailPopup());
+    }
+
+    /**
+     * 触发下载动作：规则指定动作时按规则执行，否则根据配置显示弹窗或直接下载
+     */
+    private triggerDownloadAction(action?: CtaAction) {
+        if (action === 'endcard' || (action === undefined && this.gameConfig.showPopup)) {
             this.showVictoryPopup();
         } else {
+            notifyGameEnd();
             download();
         }
     }
@@ -321,53 +565,146 @@ export class Game extends Scene
         });
     }
 
+    /**
+     * 道具按钮（加管 / 提示）：下载按钮旁的小按钮，右上角显示剩余次数（不限次数时不显示）
+     */
+    private createBoosterButton(label: string, onClick: () => void): BoosterButton {
+        const targetWidth = 236;
+        const targetHeight = 74;
+        const container = this.add.container(0, 0);
+
+        const bg = this.add.image(0, 0, 'download');
+        bg.setDisplaySize(targetWidth, targetHeight);
+        container.add(bg);
+
+        const labelText = this.add.text(0, 0, label, {
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '28px',
+            fontStyle: 'bold',
+            color: '#6a2f00'
+        });
+        labelText.setOrigin(0.5, 0.5);
+        container.add(labelText);
+
+        const countText = this.add.text(targetWidth / 2 - 8, -targetHeight / 2 + 4, '', {
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '24px',
+            fontStyle: 'bold',
+            color: '#ffffff',
+            backgroundColor: '#e53935',
+            padding: { x: 10, y: 2 }
+        });
+        countText.setOrigin(0.5, 0.5);
+        container.add(countText);
+
+        container.setInteractive(
+            new Phaser.Geom.Rectangle(-targetWidth / 2, -targetHeight / 2, targetWidth, targetHeight),
+            Phaser.Geom.Rectangle.Contains
+        );
+        container.on('pointerdown', onClick);
+        return { container, countText };
+    }
+
+    /**
+     * 剩余使用次数：limit 小于 0 表示不限（返回 Infinity）
+     */
+    private getUsesLeft(limit: number, used: number): number {
+        return limit < 0 ? Infinity : Math.max(0, limit - used);
+    }
+
+    private canUseAddTube(): boolean {
+        return !this.hasFailed && this.getUsesLeft(this.gameConfig.addButtonUseLimit, this.addTubeUses) > 0 && !!this.board?.canAddTube();
+    }
+
+    /**
+     * 使用加管道具（按钮与死局弹窗共用），成功后扣减次数并重新对齐按钮
+     */
+    private useAddTube(): boolean {
+        if (!this.canUseAddTube() || !this.board.addTube()) return false;
+        this.addTubeUses++;
+        this.updateBoosterButtons();
+        this.layoutButtons();
+        return true;
+    }
+
+    /**
+     * 使用提示：立即显示引导手指；没有可提示的移动或引导已在显示时不扣次数
+     */
+    private useHint(): boolean {
+        if (this.getUsesLeft(this.gameConfig.hintButtonUseLimit, this.hintUses) <= 0 || !this.board?.requestHint()) return false;
+        this.hintUses++;
+        EventBus.emit('hint-used', this.hintUses);
+        this.updateBoosterButtons();
+        return true;
+    }
+
+    /**
+     * 刷新道具按钮的可见性与剩余次数角标
+     */
+    private updateBoosterButtons() {
+        if (this.addTubeButton) {
+            const usesLeft = this.getUsesLeft(this.gameConfig.addButtonUseLimit, this.addTubeUses);
+            this.addTubeButton.container.setVisible(this.canUseAddTube());
+            this.addTubeButton.countText.setVisible(Number.isFinite(usesLeft));
+            this.addTubeButton.countText.setText(String(usesLeft));
+        }
+        if (this.hintButton) {
+            const usesLeft = this.getUsesLeft(this.gameConfig.hintButtonUseLimit, this.hintUses);
+            this.hintButton.container.setVisible(usesLeft > 0 && !this.hasFailed && !!this.board?.canRequestHint());
+            this.hintButton.countText.setVisible(Number.isFinite(usesLeft));
+            this.hintButton.countText.setText(String(usesLeft));
+        }
+    }
+
     private onWindowResize() {
         this.updateGameSize();
     }
 
     private updateGameSize() {
+        // 短边固定 1080，长边随窗口比例在 1080-2160 之间（方屏、平板不再留大片黑边）
+        const aspect = Math.max(window.innerWidth, window.innerHeight) / Math.max(1, Math.min(window.innerWidth, window.innerHeight));
+        const longSide = Math.round(Math.max(1080, Math.min(2160, 1080 * aspect)));
         const isPortrait = window.innerHeight > window.innerWidth;
-        
-        if (isPortrait) {
-            // 竖屏: 1080 x 2160
-            this.scale.setGameSize(1080, 2160);
-            // 更新下载按钮位置
-            if (this.downloadBtnContainer) {
-                this.downloadBtnContainer.setPosition(1080 / 2, 2160 - 200);
-            }
-            // 更新icon位置（左上角，留20px边距）
-            if (this.iconBtn) {
-                this.iconBtn.setPosition(20, 20);
-            }
-        } else {
-            // 横屏: 2160 x 1080
-            this.scale.setGameSize(2160, 1080);
-            
-            // 计算游戏区域试管底部位置
-            // 游戏区域居中，两行试管
-            // startY = (1080 - 500) / 2 = 290
-            // 第二行Y = 290 + 500 = 790
-            // 试管高度 = 432，底部 = 790 + 432/2 = 1006
-            const tubeBottomY = 290 + 500 + 432 / 2; // = 1006
-            
-            // 更新下载按钮位置，底部与试管底部对齐
+        const width = isPortrait ? 1080 : longSide;
+        const height = isPortrait ? longSide : 1080;
+        this.scale.setGameSize(width, height); // 同步触发 Board.handleResize
+        this.layoutButtons();
+
+        // 更新胜利弹窗位置
+        this.updateVictoryPopupPosition();
+    }
+
+    /**
+     * 按当前画面与棋盘布局摆放下载按钮、加管按钮与左上角icon（加管后棋盘外接矩形会变化）
+     */
+    private layoutButtons() {
+        const { width, height } = this.scale.gameSize;
+        if (isSidePanelLayout(width, height)) {
+            // 宽屏：下载按钮在右侧，底部与试管底部对齐；加管、提示按钮依次在其上方
             if (this.downloadBtnContainer && this.downloadBtn) {
+                const tubeBottomY = this.board.getLayoutBounds().bottom;
                 const btnHeight = this.downloadBtn.displayHeight;
-                const btnCenterY = tubeBottomY - btnHeight / 2;
-                this.downloadBtnContainer.setPosition(2160 - 240, btnCenterY);
-            }
-            // 更新icon位置（左上角，留20px边距）
-            if (this.iconBtn) {
-                this.iconBtn.setPosition(20, 20);
+                this.downloadBtnContainer.setPosition(width - 240, tubeBottomY - btnHeight / 2);
+                this.addTubeButton?.container.setPosition(width - 240, tubeBottomY - btnHeight - 90);
+                this.hintButton?.container.setPosition(width - 240, tubeBottomY - btnHeight - 190);
             }
+            this.limitHud?.setPosition(width - 240, 120);
+        } else if (this.downloadBtnContainer) {
+            // 竖屏、方屏、平板：下载按钮在底部居中，加管、提示按钮分列左右
+            this.downloadBtnContainer.setPosition(width / 2, height - 200);
+            this.addTubeButton?.container.setPosition(width / 2 - 330, height - 200);
+            this.hintButton?.container.setPosition(width / 2 + 330, height - 200);
+            this.limitHud?.setPosition(width / 2, 84);
         }
-        
-        // 更新胜利弹窗位置
-        this.updateVictoryPopupPosition();
+        // 更新icon位置（左上角，留20px边距）
+        if (this.iconBtn) {
+            this.iconBtn.setPosition(20, 20);
+        }
+        this.editorButton?.setPosition(width - 20, 20);
     }
 
     /**
-     * 显示死局弹窗
+     * 显示死局弹窗（game-deadlock / game-unwinnable）
      */
     private showDeadlockPopup() {
         // 重置点击状态
@@ -408,7 +745,7 @@ export class Game extends Scene
         this.victoryPopup.add(icon);
 
         // 添加download按钮容器（调整位置适应缩小后的icon）
-        const downloadBtnY = (icon.height * 0.5) / 2 + 50;
+        let downloadBtnY = (icon.height * 0.5) / 2 + 50;
         const downloadBtnContainer = this.add.container(0, downloadBtnY);
         
         // 目标尺寸（原 download.png 的尺寸）
@@ -451,6 +788,69 @@ export class Game extends Scene
             ease: 'Sine.easeInOut'
         });
 
+        // 还有加管次数时，加管按钮放在下载按钮上方作为首选操作
+        const canAddTube = this.canUseAddTube();
+        if (canAddTube) {
+            const addTubeBtnContainer = this.add.container(0, downloadBtnY);
+            const addTubeBtn = this.add.image(0, 0, 'download');
+            addTubeBtn.setDisplaySize(targetWidth, targetHeight);
+            addTubeBtnContainer.add(addTubeBtn);
+
+            const addTubeText = this.add.text(0, 0, getAddTubeText(), {
+                fontFamily: 'Arial, sans-serif',
+                fontSize: '32px',
+                fontStyle: 'bold',
+                color: '#6a2f00'
+            });
+            addTubeText.setOrigin(0.5, 0.5);
+            addTubeBtnContainer.add(addTubeText);
+
+            addTubeBtnContainer.setInteractive(
+                new Phaser.Geom.Rectangle(-targetWidth / 2, -targetHeight / 2, targetWidth, targetHeight),
+                Phaser.Geom.Rectangle.Contains
+            );
+            addTubeBtnContainer.on('pointerdown', () => {
+                this.hasClickedPopup = true;
+                this.closePopup();
+                this.useAddTube();
+            });
+            this.victoryPopup.add(addTubeBtnContainer);
+
+            // 下载按钮下移让出位置，脉动动画改给加管按钮
+            downloadBtnY += targetHeight + 30;
+            downloadBtnContainer.setY(downloadBtnY);
+            this.tweens.killTweensOf(downloadBtnContainer);
+            this.tweens.add({
+                targets: addTubeBtnContainer,
+                scale: { from: 1, to: 1.1 },
+                duration: 800,
+                yoyo: true,
+                repeat: -1,
+                ease: 'Sine.easeInOut'
+            });
+        }
+
+        // 有历史可撤销时提供「撤销」按钮：回退到最近一个仍可解的局面继续游戏
+        const canUndo = !!this.board?.canUndo();
+        if (canUndo) {
+            const undoText = this.add.text(0, downloadBtnY + targetHeight / 2 + 50, getUndoText(), {
+                fontFamily: 'Arial, sans-serif',
+                fontSize: '28px',
+                fontStyle: 'bold',
+                color: '#ffffff',
+                backgroundColor: '#00000080',
+                padding: { x: 28, y: 10 }
+            });
+            undoText.setOrigin(0.5, 0.5);
+            undoText.setInteractive();
+            undoText.on('pointerdown', () => {
+                this.hasClickedPopup = true;
+                this.closePopup();
+                this.board?.rescue();
+            });
+            this.victoryPopup.add(undoText);
+        }
+
         // 弹窗入场动画
         this.victoryPopup.setScale(0);
         this.tweens.add({
@@ -460,14 +860,123 @@ export class Game extends Scene
             ease: 'Back.easeOut'
         });
 
-        // 3秒后自动调用下载（如果用户没有点击）
-        this.autoDownloadTimer = this.time.delayedCall(3000, () => {
-            if (!this.hasClickedPopup) {
-                download();
-            }
+        // 还能加管或撤销时试玩没有结束，等玩家自己选择
+        if (!canAddTube && !canUndo) {
+            notifyGameEnd();
+            this.scheduleAutoDownload();
+        }
+    }
+
+    /**
+     * 显示失败弹窗（步数/时间用尽）：「重试」用同一谜题重开本关，下载按钮在其下方
+     */
+    private showFailPopup() {
+        this.closePopup();
+        this.hasClickedPopup = false;
+
+        const gameSize = this.scale.gameSize;
+        const centerX = gameSize.width / 2;
+        const centerY = gameSize.height / 2;
+
+        // 创建半透明遮罩（depth高于引导手指的10000）
+        this.victoryOverlay = this.add.rectangle(
+            centerX, centerY,
+            gameSize.width, gameSize.height,
+            0x000000, 0.7
+        );
+        this.victoryOverlay.setDepth(11000);
+        this.victoryOverlay.setInteractive(); // 阻止点击穿透
+
+        this.victoryPopup = this.add.container(centerX, centerY);
+        this.victoryPopup.setDepth(11001);
+
+        const icon = this.add.image(0, -80, 'icon');
+        icon.setScale(0.5);
+        this.victoryPopup.add(icon);
+
+        const targetHeight = 106;
+        const retryBtnY = (icon.height * 0.5) / 2 + 50;
+        const retryBtnContainer = this.createPopupButton(0, retryBtnY, getRetryText(), () => {
+            this.hasClickedPopup = true;
+            this.closePopup();
+            this.scene.restart(this.sceneData);
+        });
+        const downloadBtnContainer = this.createPopupButton(0, retryBtnY + targetHeight + 30, getDownloadText(), () => {
+            this.hasClickedPopup = true;
+            download();
+        });
+        this.victoryPopup.add([retryBtnContainer, downloadBtnContainer]);
+        // 提供了「重试」，不再自动下载，等玩家自己选择
+
+        // 重试按钮缩放动画
+        this.tweens.add({
+            targets: retryBtnContainer,
+            scale: { from: 1, to: 1.1 },
+            duration: 800,
+            yoyo: true,
+            repeat: -1,
+            ease: 'Sine.easeInOut'
+        });
+
+        // 弹窗入场动画
+        this.victoryPopup.setScale(0);
+        this.tweens.add({
+            targets: this.victoryPopup,
+            scale: 1,
+            duration: 400,
+            ease: 'Back.easeOut'
         });
     }
 
+    /**
+     * 弹窗按钮：下载按钮底图 + 文案
+     */
+    private createPopupButton(x: number, y: number, label: string, onClick: () => void): Phaser.GameObjects.Container {
+        const targetWidth = 338;
+        const targetHeight = 106;
+        const container = this.add.container(x, y);
+
+        const bg = this.add.image(0, 0, 'download');
+        bg.setDisplaySize(targetWidth, targetHeight);
+        container.add(bg);
+
+        const text = this.add.text(0, 0, label, {
+            fontFamily: 'Arial, sans-serif',
+            fontSize: '32px',
+            fontStyle: 'bold',
+            color: '#6a2f00'
+        });
+        text.setOrigin(0.5, 0.5);
+        container.add(text);
+
+        container.setInteractive(
+            new Phaser.Geom.Rectangle(-targetWidth / 2, -targetHeight / 2, targetWidth, targetHeight),
+            Phaser.Geom.Rectangle.Contains
+        );
+        container.on('pointerdown', onClick);
+        return container;
+    }
+
+    /**
+     * 关闭弹窗（取消自动下载并销毁遮罩与弹窗）
+     */
+    private closePopup() {
+        if (this.autoDownloadTimer) {
+            this.autoDownloadTimer.destroy();
+            this.autoDownloadTimer = null;
+        }
+        if (this.victoryPopup) {
+            this.tweens.killTweensOf(this.victoryPopup.getAll());
+            this.tweens.killTweensOf(this.victoryPopup);
+            this.victoryPopup.destroy();
+            this.victoryPopup = null;
+        }
+        if (this.victoryOverlay) {
+            this.victoryOverlay.destroy();
+            this.victoryOverlay = null;
+        }
+    }
+
     /**
      * 显示胜利弹窗
      */
@@ -513,13 +1022,25 @@ export class Game extends Scene
         icon.on('pointerdown', handleClick);
         this.victoryPopup.add(icon);
 
-        // 添加download按钮容器（调整位置适应缩小后的icon）
-        const downloadBtnY = (icon.height * 0.5) / 2 + 50;
-        const downloadBtnContainer2 = this.add.container(0, downloadBtnY);
-        
         // 目标尺寸（原 download.png 的尺寸）
         const targetWidth2 = 338;
         const targetHeight2 = 106;
+
+        // 通关且还有下一关时，「下一关」按钮在上，下载按钮在其下方
+        let downloadBtnY = (icon.height * 0.5) / 2 + 50;
+        let nextBtnContainer: Phaser.GameObjects.Container | null = null;
+        if (this.board.isSolved() && this.hasNextLevel()) {
+            nextBtnContainer = this.createPopupButton(0, downloadBtnY, getNextLevelText(), () => {
+                this.hasClickedPopup = true;
+                this.closePopup();
+                setPersistentSelectedLevel(this.currentLevelIndex + 1);
+            });
+            this.victoryPopup.add(nextBtnContainer);
+            downloadBtnY += targetHeight2 + 30;
+        }
+
+        // 添加download按钮容器（调整位置适应缩小后的icon）
+        const downloadBtnContainer2 = this.add.container(0, downloadBtnY);
         
         const downloadBtn2 = this.add.image(0, 0, 'download');
         downloadBtn2.setDisplaySize(targetWidth2, targetHeight2);
@@ -547,9 +1068,9 @@ export class Game extends Scene
         downloadBtnContainer2.on('pointerdown', handleClick);
         this.victoryPopup.add(downloadBtnContainer2);
         
-        // 下载按钮缩放动画
+        // 主按钮（下一关或下载）缩放动画
         this.tweens.add({
-            targets: downloadBtnContainer2,
+            targets: nextBtnContainer ?? downloadBtnContainer2,
             scale: { from: 1, to: 1.1 },
             duration: 800,
             yoyo: true,
@@ -583,7 +1104,18 @@ export class Game extends Scene
             delay: 100  // 稍微延迟，让遮罩先出现
         });
         
-        // 3秒后如果没有点击，自动触发下载
+        // 提供了「下一关」时试玩没有结束，等玩家自己选择，不自动下载
+        if (!nextBtnContainer) {
+            notifyGameEnd();
+            this.scheduleAutoDownload();
+        }
+    }
+
+    /**
+     * 3秒后如果没有点击，自动触发下载（编辑器试玩时不下载）
+     */
+    private scheduleAutoDownload() {
+        if (this.sceneData.editor) return;
         this.autoDownloadTimer = this.time.delayedCall(3000, () => {
             if (!this.hasClickedPopup) {
                 download();
@@ -605,9 +1137,4 @@ export class Game extends Scene
         this.victoryOverlay.setPosition(centerX, centerY);
         this.victoryOverlay.setSize(gameSize.width, gameSize.height);
     }
-
-    shutdown() {
-        EventBus.off('pauseAd', this.pauseGameSound, this);
-        EventBus.off('showAd', this.resumeGameSound, this);
-    }
 }
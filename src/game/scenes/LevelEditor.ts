@@ -0,0 +1,296 @@
+import { Scene } from 'phaser';
+import { EventBus } from '../EventBus';
+import { BallColor, BALL_COLORS, GAME_CONFIG } from '../constants/GameConstants';
+import { getLiquidColors } from '../../utils/outputConfigLoader';
+import {
+    checkEditorLevel,
+    EDITOR_CAPACITY_RANGE,
+    EDITOR_TUBE_COUNT_RANGE,
+    getDraftHiddenMask,
+    LevelEditorCheck,
+    LevelEditorDraft,
+    toEditorShareCode,
+    toLevelEntry,
+} from '../../utils/level-editor';
+import { normalizePourRules, PourRules } from '../../utils/board-state';
+
+const TEXT_STYLE: Phaser.Types.GameObjects.Text.TextStyle = {
+    fontFamily: 'Arial, sans-serif',
+    fontSize: '32px',
+    color: '#ffffff',
+};
+
+const BUTTON_STYLE: Phaser.Types.GameObjects.Text.TextStyle = {
+    ...TEXT_STYLE,
+    backgroundColor: '#3a3f58',
+    padding: { x: 18, y: 10 },
+};
+
+/** 隐藏画笔：点击已有的层切换是否隐藏 */
+const HIDDEN_BRUSH = 'hidden';
+type EditorBrush = BallColor | null | typeof HIDDEN_BRUSH;
+
+const RULE_LABELS: ReadonlyArray<[keyof PourRules, string]> = [
+    ['singleUnit', '每次一格'],
+    ['wholeRunOnly', '整段倒入'],
+    ['monochromeTarget', '目标单色'],
+];
+
+/**
+ * 关卡编辑器（仅开发版，URL ?editor=1 进入）
+ * 设置试管数、容量与倒入规则，选颜色后点击试管逐层填色、用隐藏画笔标记隐藏层；校验结构与可解性，在真实 Game/Board 中试玩，
+ * 导出为 puzzles-config.json 的一关或分享码
+ */
+export class LevelEditor extends Scene
+{
+    private draft: LevelEditorDraft = {
+        tubes: Array.from({ length: 5 }, () => []),
+        capacity: GAME_CONFIG.TUBE_CAPACITY,
+        hidden: [],
+        pourRules: normalizePourRules(),
+        id: 'tutorial',
+    };
+    /** 当前画笔：颜色、null 为橡皮擦、HIDDEN_BRUSH 为隐藏画笔 */
+    private selectedColor: EditorBrush = BALL_COLORS[0];
+    private check: LevelEditorCheck | null = null;
+    private statusLines: string[] = [];
+    private ui: Phaser.GameObjects.Container | null = null;
+
+    constructor ()
+    {
+        super('LevelEditor');
+    }
+
+    /** 试玩返回时 Game 把编辑状态原样传回 */
+    create (data?: LevelEditorDraft)
+    {
+        if (data?.tubes) {
+            this.draft = { ...data, tubes: data.tubes.map(tube => tube.slice()), hidden: getDraftHiddenMask(data) };
+        }
+        this.check = null;
+        this.statusLines = ['选择颜色后点击试管逐层填色；点击已有的层改色，橡皮擦清除该层及以上，隐藏画笔（?）切换该层是否隐藏'];
+
+        this.scale.on('resize', this.render, this);
+        this.events.once('shutdown', () => this.scale.off('resize', this.render, this));
+        this.render();
+
+        EventBus.emit('current-scene-ready', this);
+    }
+
+    /**
+     * 编辑器界面简单，每次改动整体重建
+     */
+    private render() {
+        this.ui?.destroy();
+        this.ui = this.add.container(0, 0);
+        const { width, height } = this.scale.gameSize;
+
+        this.ui.add(this.add.text(width / 2, 50, '关卡编辑器', { ...TEXT_STYLE, fontSize: '44px', fontStyle: 'bold' }).setOrigin(0.5, 0));
+
+        // 试管数 / 容量 / 清空
+        const { tubes, capacity } = this.draft;
+        this.ui.add(this.add.text(40, 150, `试管 ${tubes.length}`, TEXT_STYLE));
+        this.addButton(220, 140, '−', () => this.setTubeCount(tubes.length - 1));
+        this.addButton(300, 140, '+', () => this.setTubeCount(tubes.length + 1));
+        this.ui.add(this.add.text(420, 150, `容量 ${capacity}`, TEXT_STYLE));
+        this.addButton(600, 140, '−', () => this.setCapacity(capacity - 1));
+        this.addButton(680, 140, '+', () => this.setCapacity(capacity + 1));
+        this.addButton(820, 140, '清空', () => this.updateDraft(() => this.draft.tubes.forEach(tube => tube.length = 0)));
+
+        this.renderPalette(width, 240);
+        this.renderRules(330);
+        this.renderTubes(width, 420, height - 420);
+
+        const buttonY = height - 380;
+        this.addButton(40, buttonY, '验证', () => this.validate());
+        this.addButton(200, buttonY, '试玩', () => this.testPlay());
+        this.addButton(360, buttonY, '导出关卡', () => this.exportLevel());
+        this.addButton(600, buttonY, '复制分享码', () => this.copyShareCode());
+
+        this.ui.add(this.add.text(40, buttonY + 100, this.statusLines.join('\n'), {
+            ...TEXT_STYLE,
+            fontSize: '26px',
+            wordWrap: { width: width - 80, useAdvancedWrap: true },
+        }));
+    }
+
+    private addButton(x: number, y: number, label: string, onClick: () => void) {
+        const button = this.add.text(x, y, label, BUTTON_STYLE).setInteractive({ useHandCursor: true });
+        button.on('pointerdown', onClick);
+        this.ui!.add(button);
+    }
+
+    /** 颜色色板 + 橡皮擦 + 隐藏画笔 */
+    private renderPalette(width: number, y: number) {
+        const colors = getLiquidColors();
+        const options: EditorBrush[] = [...BALL_COLORS, null, HIDDEN_BRUSH];
+        const size = Math.min(64, (width - 80) / options.length - 8);
+        options.forEach((color, index) => {
+            const x = 40 + index * (size + 8) + size / 2;
+            const swatch = this.add.rectangle(x, y + size / 2, size, size, color && color !== HIDDEN_BRUSH ? colors[color] : 0x222222)
+                .setStrokeStyle(color === this.selectedColor ? 6 : 2, color === this.selectedColor ? 0xffffff : 0x666666)
+                .setInteractive({ useHandCursor: true });
+            swatch.on('pointerdown', () => {
+                this.selectedColor = color;
+                this.render();
+            });
+            this.ui!.add(swatch);
+            if (!color) this.ui!.add(this.add.text(x, y + size / 2, '✕', TEXT_STYLE).setOrigin(0.5));
+            if (color === HIDDEN_BRUSH) this.ui!.add(this.add.text(x, y + size / 2, '?', TEXT_STYLE).setOrigin(0.5));
+        });
+    }
+
+    /** 倒入规则开关 */
+    private renderRules(y: number) {
+        const rules = normalizePourRules(this.draft.pourRules);
+        RULE_LABELS.forEach(([rule, label], index) => {
+            this.addButton(40 + index * 260, y, `${rules[rule] ? '☑' : '☐'} ${label}`, () => this.updateDraft(() => {
+                this.draft.pourRules = { ...rules, [rule]: !rules[rule] };
+            }));
+        });
+    }
+
+    /** 试管网格：每行最多 GAME_CONFIG.TUBE_COLS 个，自底向上画 capacity 格 */
+    private renderTubes(width: number, top: number, bottom: number) {
+        const { tubes, capacity } = this.draft;
+        const hidden = getDraftHiddenMask(this.draft);
+        const colors = getLiquidColors();
+        const cols = Math.min(tubes.length, GAME_CONFIG.TUBE_COLS);
+        const rows = Math.ceil(tubes.length / cols);
+        const slotWidth = (width - 80) / cols;
+        const tubeWidth = Math.min(100, slotWidth - 20);
+        const rowHeight = (bottom - top) / rows;
+        const cellHeight = Math.min(60, (rowHeight - 60) / capacity);
+
+        tubes.forEach((tube, t) => {
+            const x = 40 + (t % cols) * slotWidth + slotWidth / 2;
+            const tubeBottom = top + (Math.floor(t / cols) + 1) * rowHeight - 40;
+            for (let i = 0; i < capacity; i++) {
+                const filled = i < tube.length;
+                const cell = this.add.rectangle(x, tubeBottom - (i + 0.5) * cellHeight, tubeWidth, cellHeight - 4, filled ? colors[tube[i]] : 0x000000, filled ? 1 : 0.3)
+                    .setStrokeStyle(2, 0x888888)
+                    .setInteractive({ useHandCursor: true });
+                cell.on('pointerdown', () => this.paintCell(t, i));
+                this.ui!.add(cell);
+                if (hidden[t][i]) {
+                    this.ui!.add(this.add.text(x, cell.y, '?', { ...TEXT_STYLE, fontSize: `${Math.round(cellHeight * 0.6)}px` }).setOrigin(0.5));
+                }
+            }
+            this.ui!.add(this.add.text(x, tubeBottom + 8, `${t + 1}`, { ...TEXT_STYLE, fontSize: '24px' }).setOrigin(0.5, 0));
+        });
+    }
+
+    /**
+     * 画笔：点已有的层改色，点空位在顶部追加一层；橡皮擦清除该层及以上；隐藏画笔切换已有的层是否隐藏
+     */
+    private paintCell(tubeIndex: number, layer: number) {
+        this.updateDraft(() => {
+            const tube = this.draft.tubes[tubeIndex];
+            if (this.selectedColor === HIDDEN_BRUSH) {
+                if (layer < tube.length) {
+                    const hidden = getDraftHiddenMask(this.draft);
+                    hidden[tubeIndex][layer] = !hidden[tubeIndex][layer];
+                    this.draft.hidden = hidden;
+                }
+            } else if (this.selectedColor === null) {
+                tube.length = Math.min(tube.length, layer);
+            } else if (layer < tube.length) {
+                tube[layer] = this.selectedColor;
+            } else if (tube.length < this.draft.capacity) {
+                tube.push(this.selectedColor);
+            }
+        });
+    }
+
+    private setTubeCount(count: number) {
+        const next = Math.max(EDITOR_TUBE_COUNT_RANGE.min, Math.min(EDITOR_TUBE_COUNT_RANGE.max, count));
+        this.updateDraft(() => {
+            const { tubes } = this.draft;
+            while (tubes.length < next) tubes.push([]);
+            tubes.length = next;
+        });
+    }
+
+    private setCapacity(capacity: number) {
+        const next = Math.max(EDITOR_CAPACITY_RANGE.min, Math.min(EDITOR_CAPACITY_RANGE.max, capacity));
+        this.updateDraft(() => {
+            this.draft.capacity = next;
+            this.draft.tubes.forEach(tube => tube.length = Math.min(tube.length, next));
+        });
+    }
+
+    /** 改动布局后之前的校验结果失效；隐藏掩码随增删的层对齐 */
+    private updateDraft(mutate: () => void) {
+        mutate();
+        this.draft.hidden = getDraftHiddenMask(this.draft);
+        this.check = null;
+        this.statusLines = [this.describeColorCounts()];
+        this.render();
+    }
+
+    /** 各颜色球数，方便对齐到容量的倍数 */
+    private describeColorCounts(): string {
+        const counts = new Map<BallColor, number>();
+        this.draft.tubes.flat().forEach(color => counts.set(color, (counts.get(color) ?? 0) + 1));
+        if (counts.size === 0) return '布局为空';
+        return [...counts].map(([color, count]) => `${color} ${count}${count % this.draft.capacity ? '（非容量倍数）' : ''}`).join('，');
+    }
+
+    private runCheck(): LevelEditorCheck {
+        this.check = this.check ?? checkEditorLevel(this.draft);
+        return this.check;
+    }
+
+    private validate() {
+        const check = this.runCheck();
+        const metrics = check.puzzle?.metrics;
+        this.statusLines = check.errors.length
+            ? check.errors.map(error => `✗ ${error}`)
+            : [`✓ 可解：最短 ${check.puzzle?.solutionLength} 步${metrics?.optimalProven ? '' : '（未证明最短）'}，评分 ${metrics?.rating ?? '-'}，建议难度 ${check.difficulty}`];
+        this.render();
+    }
+
+    /**
+     * 在真实 Game 场景中试玩（结构合法即可，无解的布局也可以试）；Game 中可返回编辑器
+     */
+    private testPlay() {
+        const check = this.runCheck();
+        if (!check.puzzle) {
+            this.validate();
+            return;
+        }
+        this.scene.start('Game', {
+            puzzle: check.puzzle,
+            difficulty: check.difficulty ?? 1,
+            emptyTubeCount: this.draft.tubes.filter(tube => tube.length === 0).length,
+            levelIndex: 0,
+            editor: this.draft,
+        });
+    }
+
+    private exportLevel() {
+        const check = this.runCheck();
+        if (check.errors.length) {
+            this.validate();
+            return;
+        }
+        const json = JSON.stringify(toLevelEntry(this.draft, check), null, 2);
+        navigator.clipboard?.writeText(json).catch(() => undefined);
+        this.statusLines = [
+            '✓ 关卡 JSON 已复制到剪贴板，粘贴进 puzzles-config.json 或 scripts/puzzle-pack.json 的 levels（id 可按需修改）',
+            `分享码：${toEditorShareCode(this.draft)}`,
+        ];
+        this.render();
+    }
+
+    private copyShareCode() {
+        try {
+            const code = toEditorShareCode(this.draft);
+            navigator.clipboard?.writeText(code).catch(() => undefined);
+            this.statusLines = [`分享码已复制：${code}`, `试玩链接参数：?puzzle=${code}`];
+        } catch (e) {
+            this.statusLines = [`✗ ${(e as Error).message}`];
+        }
+        this.render();
+    }
+}
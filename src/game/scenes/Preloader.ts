@@ -1,12 +1,12 @@
 import { Scene } from 'phaser';
-import { LIQUID_UP_FRAME_RATE, SPLASH_FRAME_RATE } from '../constants/GameConstants';
+import { TUNING } from '../constants/GameConstants';
 import { EventBus } from '../EventBus';
 import { SpineLoader } from '../utils/SpineLoader';
-import { getOutputConfigValueAsync } from '../../utils/outputConfigLoader';
 import { loadAssetGroup } from 'virtual:game-assets';
-import { generatePuzzleWithAdapter, PuzzleAdapterResult } from '../../utils/puzzle-adapter';
-import { getCachedPuzzle, waitForPregenerate } from '../../utils/puzzleCache';
-import { getPersistentSelectedLevel } from '../levelSelection';
+import { generatePuzzleWithAdapter, puzzleResultFromTubes } from '../../utils/puzzle-adapter';
+import { CachedPuzzleData, getLevelPuzzleAsync, waitForPregenerate } from '../../utils/puzzleCache';
+import { getLevelDefinitions } from '../../utils/level-list';
+import { getPersistentSelectedLevel, getPuzzleFromURL, isEditorRequested } from '../levelSelection';
 
 // 导入游戏图片资源
 import downloadBtn from '../../assets/按钮.png';
@@ -289,7 +289,7 @@ export class Preloader extends Scene {
         this.anims.create({
             key: 'liquid_up',
             frames: this.generateFrames('up', 1, 10),
-            frameRate: LIQUID_UP_FRAME_RATE,
+            frameRate: TUNING.LIQUID_UP_FRAME_RATE,
             repeat: 0
         });
 
@@ -322,7 +322,7 @@ export class Preloader extends Scene {
         this.anims.create({
             key: 'liquid_splash',
             frames: this.generateFrames('splash', 0, 18),
-            frameRate: SPLASH_FRAME_RATE,
+            frameRate: TUNING.SPLASH_FRAME_RATE,
             repeat: 0
         });
     }
@@ -373,7 +373,14 @@ export class Preloader extends Scene {
         // 创建液体动画
         this.createLiquidAnimations();
 
-        // 资源加载完毕，立即启动 Game 场景（使用当前 difficulty，默认 1）
+        // 开发版 ?editor=1：进入关卡编辑器，不生成谜题
+        if (isEditorRequested()) {
+            this.scene.start('LevelEditor');
+            EventBus.emit('preloading-complete');
+            return;
+        }
+
+        // 资源加载完毕，立即启动 Game 场景（使用当前选中的关卡，默认第 1 关）
         // Game 在选关覆盖层后面渲染，用户点击选关后只需取消隐藏
         this.generatePuzzle().then((puzzleData) => {
             console.log('[TIMING] Preloader→Game', { t: performance.now() });
@@ -386,37 +393,33 @@ export class Preloader extends Scene {
      * 在 Preloader 阶段生成谜题，避免在 Game 场景初始化时阻塞
      * 这样可以在加载资源的同时并行生成谜题
      */
-    private async generatePuzzle(): Promise<{ puzzle: PuzzleAdapterResult; difficulty: number; emptyTubeCount: number }> {
+    private async generatePuzzle(): Promise<CachedPuzzleData> {
+        const levelIndex = getPersistentSelectedLevel();
+        const difficulty = getLevelDefinitions()[levelIndex]?.difficulty ?? 1;
         try {
-            await waitForPregenerate();
-
-            // 使用选关界面选择的难度（1/5/9）
-            const actualDifficulty = Math.max(1, Math.min(10, getPersistentSelectedLevel()));
-
-            const emptyTubeCount = await getOutputConfigValueAsync<number>('emptyTubeCount', 2);
-            const actualEmptyTubeCount = Math.max(1, Math.min(6, emptyTubeCount));
-
-            const cached = getCachedPuzzle(actualDifficulty, actualEmptyTubeCount);
-            if (cached) {
-                return cached;
+            // ?puzzle= 分享码：直接使用指定布局，不走缓存与生成
+            const urlPuzzle = getPuzzleFromURL();
+            if (urlPuzzle) {
+                return {
+                    puzzle: puzzleResultFromTubes(urlPuzzle.tubes, 0, urlPuzzle.capacity, urlPuzzle.hidden, urlPuzzle.pourRules),
+                    difficulty,
+                    emptyTubeCount: urlPuzzle.tubes.filter(tube => tube.length === 0).length,
+                    levelIndex,
+                };
             }
 
-            const puzzle = generatePuzzleWithAdapter({
-                difficulty: actualDifficulty,
-                emptyTubeCount: actualEmptyTubeCount,
-            });
-
-            return { puzzle, difficulty: actualDifficulty, emptyTubeCount: actualEmptyTubeCount };
+            // 使用选关界面或 ?level= 选中的关卡，缓存中没有时按关卡规格生成
+            await waitForPregenerate();
+            return await getLevelPuzzleAsync(levelIndex);
         } catch (e) {
             if (import.meta.env.DEV) {
                 console.warn('[Preloader] 生成谜题失败，使用默认值:', e);
             }
-            const diff = Math.max(1, Math.min(10, getPersistentSelectedLevel()));
             const puzzle = generatePuzzleWithAdapter({
-                difficulty: diff,
+                difficulty,
                 emptyTubeCount: 2,
             });
-            return { puzzle, difficulty: diff, emptyTubeCount: 2 };
+            return { puzzle, difficulty, emptyTubeCount: 2, levelIndex };
         }
     }
 
@@ -0,0 +1,164 @@
+/**
+ * 棋盘布局引擎
+ *
+ * 根据试管数、容量与可用游戏区域计算行列数、试管缩放与间距，
+ * 取代按 14 管 2×7 手调的 FIRST_TUBE_X / COL_OFFSET_X / ROW_SPACING_Y 偏移。
+ * 纯计算模块，不依赖 Phaser，横屏、竖屏、方屏与平板比例统一处理。
+ */
+
+import { GAME_CONFIG } from '../constants/GameConstants';
+
+/** 横宽比（宽 / 高）达到该值时下载按钮放在右侧，否则放在底部 */
+export const SIDE_PANEL_MIN_ASPECT = 1.4;
+
+/** 试管设计尺寸（缩放 1 时），取竖屏设计稿 */
+const DESIGN_TUBE_WIDTH = GAME_CONFIG.PORTRAIT.TUBE_WIDTH;
+const DESIGN_TUBE_HEIGHT = GAME_CONFIG.PORTRAIT.TUBE_HEIGHT;
+
+/** 列间空隙 / 试管宽度、行间空隙 / 试管高度，沿用竖屏设计稿比例 */
+const COL_GAP_RATIO = (GAME_CONFIG.PORTRAIT.COL_OFFSET_X - DESIGN_TUBE_WIDTH) / DESIGN_TUBE_WIDTH;
+const ROW_GAP_RATIO = (GAME_CONFIG.PORTRAIT.ROW_SPACING_Y - DESIGN_TUBE_HEIGHT) / DESIGN_TUBE_HEIGHT;
+
+/**
+ * 四周留给 UI 的边距
+ */
+export interface LayoutInsets {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/**
+ * 布局输入
+ */
+export interface BoardLayoutInput {
+    /** 游戏区域宽度 */
+    width: number;
+    /** 游戏区域高度 */
+    height: number;
+    tubeCount: number;
+    /** 试管容量，决定液体单位高度 */
+    capacity: number;
+    /** UI 边距，默认 getBoardInsets(width, height) */
+    insets?: LayoutInsets;
+    /** 最大缩放，默认 1（不超过设计尺寸） */
+    maxScale?: number;
+}
+
+/**
+ * 布局结果
+ */
+export interface BoardLayout {
+    rows: number;
+    cols: number;
+    /** 相对设计尺寸的缩放 */
+    scale: number;
+    tubeWidth: number;
+    tubeHeight: number;
+    /** 相邻列中心距 */
+    colSpacing: number;
+    /** 相邻行中心距 */
+    rowSpacing: number;
+    /** 液体单位尺寸（capacity 个单位正好装满试管） */
+    ballSize: number;
+    ballSpacing: number;
+    /** 每个试管的中心位置（游戏区域坐标） */
+    positions: { x: number; y: number }[];
+    /** 全部试管的外接矩形 */
+    bounds: { left: number; top: number; right: number; bottom: number };
+}
+
+/**
+ * 是否采用侧栏布局（下载按钮在右侧）
+ */
+export function isSidePanelLayout(width: number, height: number): boolean {
+    return width / height >= SIDE_PANEL_MIN_ASPECT;
+}
+
+/**
+ * 默认 UI 边距：左上角 icon，下载按钮在右侧（宽屏）或底部（竖屏、方屏、平板）
+ */
+export function getBoardInsets(width: number, height: number): LayoutInsets {
+    return isSidePanelLayout(width, height)
+        ? { top: 60, right: 480, bottom: 60, left: 170 }
+        : { top: 170, right: 40, bottom: 320, left: 40 };
+}
+
+/**
+ * 计算棋盘布局
+ * - 枚举行数，取能让试管最大的一种；缩放相同时取行数少的
+ * - 试管多于 GAME_CONFIG.TUBE_COLS 个时至少分 GAME_CONFIG.TUBE_ROWS 行（默认 14 管与设计稿一致为 2×7）
+ * - 各行尽量均分，不满的行居中
+ * - 整体尽量居中于画面，放不下时推入边距内的可用区域
+ */
+export function computeBoardLayout(input: BoardLayoutInput): BoardLayout {
+    const { width, height } = input;
+    const count = Math.max(1, input.tubeCount);
+    const insets = input.insets ?? getBoardInsets(width, height);
+    const maxScale = input.maxScale ?? 1;
+    const availableWidth = Math.max(1, width - insets.left - insets.right);
+    const availableHeight = Math.max(1, height - insets.top - insets.bottom);
+
+    const minRows = Math.min(GAME_CONFIG.TUBE_ROWS, Math.ceil(count / GAME_CONFIG.TUBE_COLS));
+    let best = { rows: minRows, cols: Math.ceil(count / minRows), scale: 0 };
+    for (let rows = minRows; rows <= count; rows++) {
+        const cols = Math.ceil(count / rows);
+        if ((rows - 1) * cols >= count) continue; // 会空出整行
+        const blockWidth = DESIGN_TUBE_WIDTH * (cols + (cols - 1) * COL_GAP_RATIO);
+        const blockHeight = DESIGN_TUBE_HEIGHT * (rows + (rows - 1) * ROW_GAP_RATIO);
+        const scale = Math.min(maxScale, availableWidth / blockWidth, availableHeight / blockHeight);
+        if (scale > best.scale + 1e-6) {
+            best = { rows, cols, scale };
+        }
+    }
+
+    const { rows, cols, scale } = best;
+    const tubeWidth = DESIGN_TUBE_WIDTH * scale;
+    const tubeHeight = DESIGN_TUBE_HEIGHT * scale;
+    const colSpacing = tubeWidth * (1 + COL_GAP_RATIO);
+    const rowSpacing = tubeHeight * (1 + ROW_GAP_RATIO);
+    const blockWidth = (cols - 1) * colSpacing + tubeWidth;
+    const blockHeight = (rows - 1) * rowSpacing + tubeHeight;
+
+    const centerX = clampCenter(width / 2, insets.left, width - insets.right, blockWidth);
+    const centerY = clampCenter(height / 2, insets.top, height - insets.bottom, blockHeight);
+    const firstRowY = centerY - (rows - 1) * rowSpacing / 2;
+
+    const positions: { x: number; y: number }[] = [];
+    for (let index = 0; index < count; index++) {
+        const row = Math.floor(index / cols);
+        const col = index % cols;
+        const colsInRow = Math.min(cols, count - row * cols);
+        const firstColX = centerX - (colsInRow - 1) * colSpacing / 2;
+        positions.push({ x: firstColX + col * colSpacing, y: firstRowY + row * rowSpacing });
+    }
+
+    const unitScale = (GAME_CONFIG.TUBE_CAPACITY / input.capacity) * scale;
+    return {
+        rows,
+        cols,
+        scale,
+        tubeWidth,
+        tubeHeight,
+        colSpacing,
+        rowSpacing,
+        ballSize: GAME_CONFIG.BALL_SIZE * unitScale,
+        ballSpacing: GAME_CONFIG.BALL_SPACING * unitScale,
+        positions,
+        bounds: {
+            left: centerX - blockWidth / 2,
+            top: centerY - blockHeight / 2,
+            right: centerX + blockWidth / 2,
+            bottom: centerY + blockHeight / 2,
+        },
+    };
+}
+
+/** 中心点尽量取 preferred，但保证 [min, max] 内放得下 size；放不下时取区间中点 */
+function clampCenter(preferred: number, min: number, max: number, size: number): number {
+    const low = min + size / 2;
+    const high = max - size / 2;
+    if (low > high) return (min + max) / 2;
+    return Math.max(low, Math.min(high, preferred));
+}
@@ -0,0 +1,302 @@
+/**
+ * 纯逻辑棋盘模型（不依赖 Phaser）
+ * 保存每个试管的颜色序列（末尾为顶部）与容量，负责合法移动枚举、执行/撤销移动、胜利与卡死判定。
+ * Board 用它驱动视觉表现；生成器、提示与 QA 工具可直接在它上面推演局面，无需创建精灵。
+ *
+ * 隐藏层（神秘层）：可选的隐藏掩码标记开局时看不到颜色的单位。
+ * 顶部单位始终可见；倒出后露出的新顶部随即揭开，揭开后不再隐藏（撤销也不会重新隐藏）。
+ * 连续同色只计算已揭开的单位，因此移动规则不会泄露隐藏层的颜色。
+ *
+ * 倒入规则可按关卡配置（PourRules），状态派生出的副本都沿用同一份规则，棋盘、生成器、求解器与提示因此保持一致。
+ */
+
+import { BallColor, GAME_CONFIG } from '../game/constants/GameConstants';
+
+/**
+ * 一次倒入操作
+ */
+export interface PourMove {
+    /** 源试管索引 */
+    from: number;
+    /** 目标试管索引 */
+    to: number;
+    /** 实际移动的单位数 */
+    count: number;
+}
+
+/**
+ * 倒入规则，全部关闭即经典规则：倒出顶部连续同色中目标放得下的部分
+ */
+export interface PourRules {
+    /** 每次只倒一个单位 */
+    singleUnit: boolean;
+    /** 目标放不下要倒的全部单位时不能倒（禁止部分倒入） */
+    wholeRunOnly: boolean;
+    /** 倒入后目标必须只有一种颜色（目标含其他颜色或未揭开的单位时不能倒） */
+    monochromeTarget: boolean;
+}
+
+export const DEFAULT_POUR_RULES: Readonly<PourRules> = {
+    singleUnit: false,
+    wholeRunOnly: false,
+    monochromeTarget: false,
+};
+
+/**
+ * 补全部分配置的规则（配置、记录等外部输入），未知字段忽略
+ */
+export function normalizePourRules(rules?: Partial<PourRules> | null): PourRules {
+    return {
+        singleUnit: rules?.singleUnit === true,
+        wholeRunOnly: rules?.wholeRunOnly === true,
+        monochromeTarget: rules?.monochromeTarget === true,
+    };
+}
+
+/** 是否为经典规则（用于省略序列化字段） */
+export function isDefaultPourRules(rules: Readonly<PourRules>): boolean {
+    return !rules.singleUnit && !rules.wholeRunOnly && !rules.monochromeTarget;
+}
+
+export class BoardState<C extends string | number = BallColor> {
+    private readonly tubes: C[][];
+    /** 与 tubes 同形的隐藏掩码（true = 隐藏） */
+    private readonly hidden: boolean[][];
+    private hiddenTotal = 0;
+    public readonly capacity: number;
+    public readonly rules: Readonly<PourRules>;
+
+    /**
+     * @param tubes 试管内容（会被复制，外部修改不影响状态）
+     * @param capacity 每个试管容量，默认 GAME_CONFIG.TUBE_CAPACITY
+     * @param hidden 隐藏掩码（与 tubes 同形，缺省为全部可见）；顶部单位与已完成试管总是揭开
+     * @param rules 倒入规则，默认经典规则
+     */
+    constructor(
+        tubes: ReadonlyArray<ReadonlyArray<C>>,
+        capacity: number = GAME_CONFIG.TUBE_CAPACITY,
+        hidden?: ReadonlyArray<ReadonlyArray<boolean>>,
+        rules: Readonly<PourRules> = DEFAULT_POUR_RULES
+    ) {
+        this.tubes = tubes.map(tube => tube.slice());
+        this.capacity = capacity;
+        this.rules = rules;
+        this.hidden = this.tubes.map((tube, i) => tube.map((_, j) => !!hidden?.[i]?.[j]));
+        for (let i = 0; i < this.tubes.length; i++) {
+            this.hiddenTotal += this.hidden[i].filter(Boolean).length;
+            this.revealExposed(i);
+        }
+    }
+
+    public clone(): BoardState<C> {
+        return new BoardState<C>(this.tubes, this.capacity, this.hidden, this.rules);
+    }
+
+    public get tubeCount(): number {
+        return this.tubes.length;
+    }
+
+    /** 只读访问某个试管内容（末尾为顶部） */
+    public getTube(index: number): ReadonlyArray<C> {
+        return this.tubes[index];
+    }
+
+    /** 导出全部试管内容的副本 */
+    public toArray(): C[][] {
+        return this.tubes.map(tube => tube.slice());
+    }
+
+    /** 仍隐藏的单位数 */
+    public get hiddenCount(): number {
+        return this.hiddenTotal;
+    }
+
+    /** 第 index 个试管自底向上第 position 个单位是否仍隐藏 */
+    public isHidden(index: number, position: number): boolean {
+        return this.hidden[index][position] ?? false;
+    }
+
+    /** 导出隐藏掩码的副本 */
+    public getHiddenMask(): boolean[][] {
+        return this.hidden.map(tube => tube.slice());
+    }
+
+    public isEmpty(index: number): boolean {
+        return this.tubes[index].length === 0;
+    }
+
+    public isFull(index: number): boolean {
+        return this.tubes[index].length >= this.capacity;
+    }
+
+    public getTopColor(index: number): C | null {
+        const tube = this.tubes[index];
+        return tube.length > 0 ? tube[tube.length - 1] : null;
+    }
+
+    /** 顶部连续同色的单位数（遇到隐藏单位即停止） */
+    public getTopRunLength(index: number): number {
+        const tube = this.tubes[index];
+        if (tube.length === 0) return 0;
+        const color = tube[tube.length - 1];
+        const hidden = this.hidden[index];
+        let run = 0;
+        for (let i = tube.length - 1; i >= 0 && tube[i] === color && !hidden[i]; i--) run++;
+        return run;
+    }
+
+    /** 试管是否只有一种颜色（空管返回 false） */
+    public isMonochrome(index: number): boolean {
+        const tube = this.tubes[index];
+        if (tube.length === 0) return false;
+        return tube.every(c => c === tube[0]);
+    }
+
+    /** 已完成：装满且同色（对应 Tube.isCompleted，完成的试管不可再作为源或目标） */
+    public isTubeCompleted(index: number): boolean {
+        return this.isFull(index) && this.isMonochrome(index);
+    }
+
+    /**
+     * 计算从 from 倒入 to 能移动的单位数，不合法时返回 0
+     * 规则：源非空且未完成；目标未满、未完成；目标为空或顶部同色；移动顶部连续同色中能放下的部分
+     * 再按 rules 收紧：只倒一个单位 / 放不下全部时不能倒 / 目标必须只有同色且已揭开的单位
+     */
+    public getPourCount(from: number, to: number): number {
+        if (from === to) return 0;
+        if (from < 0 || to < 0 || from >= this.tubes.length || to >= this.tubes.length) return 0;
+        if (this.isEmpty(from) || this.isTubeCompleted(from)) return 0;
+        if (this.isFull(to)) return 0;
+
+        const color = this.getTopColor(from);
+        const targetColor = this.getTopColor(to);
+        if (targetColor !== null && targetColor !== color) return 0;
+
+        if (this.rules.monochromeTarget && this.getTopRunLength(to) !== this.tubes[to].length) return 0;
+
+        const space = this.capacity - this.tubes[to].length;
+        const wanted = this.rules.singleUnit ? 1 : this.getTopRunLength(from);
+        if (this.rules.wholeRunOnly && wanted > space) return 0;
+        return Math.min(wanted, space);
+    }
+
+    /** 返回 from→to 的移动描述，不合法时返回 null（不修改状态） */
+    public getMove(from: number, to: number): PourMove | null {
+        const count = this.getPourCount(from, to);
+        return count > 0 ? { from, to, count } : null;
+    }
+
+    /** 枚举当前所有合法移动 */
+    public getLegalMoves(): PourMove[] {
+        const moves: PourMove[] = [];
+        for (let from = 0; from < this.tubes.length; from++) {
+            if (this.isEmpty(from) || this.isTubeCompleted(from)) continue;
+            for (let to = 0; to < this.tubes.length; to++) {
+                const count = this.getPourCount(from, to);
+                if (count > 0) moves.push({ from, to, count });
+            }
+        }
+        return moves;
+    }
+
+    /** 是否存在任意合法移动（找到一个即返回） */
+    public hasAnyLegalMove(): boolean {
+        for (let from = 0; from < this.tubes.length; from++) {
+            if (this.isEmpty(from) || this.isTubeCompleted(from)) continue;
+            for (let to = 0; to < this.tubes.length; to++) {
+                if (this.getPourCount(from, to) > 0) return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * 执行 from→to 的倒入，返回实际移动；不合法时返回 null 且不修改状态
+     */
+    public pour(from: number, to: number): PourMove | null {
+        const move = this.getMove(from, to);
+        if (!move) return null;
+        this.transfer(from, to, move.count);
+        return move;
+    }
+
+    /**
+     * 按移动描述执行（不做合法性检查，用于重放已验证的移动序列）
+     */
+    public applyMove(move: PourMove): void {
+        this.transfer(move.from, move.to, move.count);
+    }
+
+    /**
+     * 撤销移动：把 count 个单位从 to 移回 from
+     */
+    public revertMove(move: PourMove): void {
+        this.transfer(move.to, move.from, move.count);
+    }
+
+    /**
+     * 在末尾追加一个空试管（加管道具），返回新试管索引
+     */
+    public addEmptyTube(): number {
+        this.tubes.push([]);
+        this.hidden.push([]);
+        return this.tubes.length - 1;
+    }
+
+    private transfer(from: number, to: number, count: number): void {
+        const moved = this.tubes[from].splice(this.tubes[from].length - count, count);
+        this.tubes[to].push(...moved);
+        const movedHidden = this.hidden[from].splice(this.hidden[from].length - count, count);
+        this.hidden[to].push(...movedHidden);
+        this.revealExposed(from);
+        this.revealExposed(to);
+    }
+
+    /** 揭开顶部单位；已完成的试管全部揭开 */
+    private revealExposed(index: number): void {
+        const hidden = this.hidden[index];
+        const revealFrom = this.isTubeCompleted(index) ? 0 : hidden.length - 1;
+        for (let i = Math.max(0, revealFrom); i < hidden.length; i++) {
+            if (hidden[i]) {
+                hidden[i] = false;
+                this.hiddenTotal--;
+            }
+        }
+    }
+
+    /**
+     * 是否已胜利：每个试管为空或同色，且同一颜色最多只剩一个未装满的试管
+     * （颜色数量为容量整数倍时，等价于「每个试管为空或已完成」）
+     */
+    public isSolved(): boolean {
+        const partialColors = new Set<C>();
+        for (let i = 0; i < this.tubes.length; i++) {
+            if (this.isEmpty(i)) continue;
+            if (!this.isMonochrome(i)) return false;
+            if (!this.isFull(i)) {
+                const color = this.tubes[i][0];
+                if (partialColors.has(color)) return false;
+                partialColors.add(color);
+            }
+        }
+        return true;
+    }
+
+    /** 卡死：未胜利且没有任何合法移动 */
+    public isStuck(): boolean {
+        return !this.isSolved() && !this.hasAnyLegalMove();
+    }
+
+    /**
+     * 局面键：试管顺序无关（按字典序排序），用于去重与缓存；隐藏单位追加「?」
+     */
+    public toKey(): string {
+        if (this.hiddenTotal === 0) {
+            return this.tubes.map(tube => tube.join(',')).sort().join('|');
+        }
+        return this.tubes
+            .map((tube, i) => tube.map((color, j) => (this.hidden[i][j] ? `${color}?` : String(color))).join(','))
+            .sort()
+            .join('|');
+    }
+}
@@ -0,0 +1,101 @@
+/**
+ * CTA（下载跳转）触发规则
+ * 把玩家行为折算成若干累计指标，任一规则的指标达到阈值即触发一次 CTA（直接下载或结束页）。
+ * 新增触发条件只需增加规则（或指标），场景只负责把事件喂给引擎。
+ */
+
+import type { OutputConfig } from './output-config-schema';
+
+/** 累计指标：点击次数 / 成功倒入次数 / 同色合并次数 / 游戏时长（毫秒）/ 完成试管数 */
+export type CtaMetric = 'taps' | 'pours' | 'merges' | 'elapsedMs' | 'completedTubes';
+
+/** 触发动作：download 直接跳转，endcard 显示结束页；省略时由 showPopup 决定 */
+export type CtaAction = 'download' | 'endcard';
+
+export interface CtaRule {
+    metric: CtaMetric;
+    /** 指标达到该值（>=）时触发 */
+    threshold: number;
+    action?: CtaAction;
+}
+
+const CTA_METRICS: ReadonlyArray<CtaMetric> = ['taps', 'pours', 'merges', 'elapsedMs', 'completedTubes'];
+
+/** output-config 顶层阈值字段对应的指标 */
+const THRESHOLD_KEYS: Partial<Record<keyof OutputConfig, CtaMetric>> = {
+    jumpStepCount: 'pours',
+    completedTubeCount: 'completedTubes',
+    pairCountThreshold: 'merges',
+    clickCountThreshold: 'taps',
+};
+
+/**
+ * 从 output-config 解析触发规则
+ * - 顶层阈值：jumpStepCount（倒入次数）、completedTubeCount、pairCountThreshold（同色合并）、clickCountThreshold（点击）
+ * - ctaTriggers 数组：[{ metric, threshold, action? }]，可配置时长等其他指标
+ * 阈值不是正数的规则视为关闭
+ */
+export function resolveCtaRules(config: OutputConfig): CtaRule[] {
+    const rules: CtaRule[] = [];
+    for (const [key, metric] of Object.entries(THRESHOLD_KEYS)) {
+        const threshold = Number(config[key as keyof OutputConfig]);
+        if (threshold > 0) rules.push({ metric, threshold });
+    }
+
+    const extra: Partial<Record<keyof CtaRule, unknown>>[] = Array.isArray(config.ctaTriggers) ? config.ctaTriggers : [];
+    for (const item of extra) {
+        const metric = item?.metric as CtaMetric;
+        const threshold = Number(item?.threshold);
+        if (!CTA_METRICS.includes(metric) || !(threshold > 0)) {
+            console.warn('[CTA] 忽略无效的触发规则:', item);
+            continue;
+        }
+        const action = item.action === 'download' || item.action === 'endcard' ? item.action : undefined;
+        rules.push({ metric, threshold, action });
+    }
+    return rules;
+}
+
+/**
+ * 触发引擎：累计指标，首个达到阈值的规则触发回调，之后不再触发
+ */
+export class CtaTriggerEngine {
+    private readonly values: Record<CtaMetric, number> = {
+        taps: 0,
+        pours: 0,
+        merges: 0,
+        elapsedMs: 0,
+        completedTubes: 0,
+    };
+    private firedRule: CtaRule | null = null;
+
+    constructor(
+        private readonly rules: ReadonlyArray<CtaRule>,
+        private readonly onTrigger: (rule: CtaRule) => void
+    ) {}
+
+    /** 已触发的规则（未触发为 null） */
+    public get fired(): CtaRule | null {
+        return this.firedRule;
+    }
+
+    public getValue(metric: CtaMetric): number {
+        return this.values[metric];
+    }
+
+    /** 指标累加（点击、时长等增量事件） */
+    public add(metric: CtaMetric, amount: number = 1): void {
+        this.set(metric, this.values[metric] + amount);
+    }
+
+    /** 指标直接赋值（事件本身携带累计值时） */
+    public set(metric: CtaMetric, value: number): void {
+        this.values[metric] = value;
+        if (this.firedRule) return;
+        const rule = this.rules.find(r => r.metric === metric && value >= r.threshold);
+        if (rule) {
+            this.firedRule = rule;
+            this.onTrigger(rule);
+        }
+    }
+}
@@ -178,22 +178,203 @@ function getBrowserLanguage(): string {
 }
 
 /**
- * 根据浏览器语言获取 DOWNLOAD 文案
+ * 按浏览器语言从翻译表取文案
  */
-export function getDownloadText(): string {
+function translate(translations: Record<string, string>): string {
     const browserLang = getBrowserLanguage();
     
     // 尝试完整匹配（如 zh-CN, pt-BR）
-    if (downloadTranslations[browserLang]) {
-        return downloadTranslations[browserLang];
+    if (translations[browserLang]) {
+        return translations[browserLang];
     }
     
     // 尝试匹配语言代码的基础部分（如 zh, pt）
     const baseLang = browserLang.split('-')[0].toLowerCase();
-    if (downloadTranslations[baseLang]) {
-        return downloadTranslations[baseLang];
+    if (translations[baseLang]) {
+        return translations[baseLang];
     }
     
     // 默认返回英语
-    return downloadTranslations['en'];
+    return translations['en'];
+}
+
+/**
+ * 根据浏览器语言获取 DOWNLOAD 文案
+ */
+export function getDownloadText(): string {
+    return translate(downloadTranslations);
+}
+
+// 死局弹窗「撤销」按钮文案（未收录的语言回退英语）
+const undoTranslations: Record<string, string> = {
+    'en': 'UNDO',
+    'zh-HK': '復原',
+    'zh-TW': '復原',
+    'zh-CN': '撤销',
+    'zh': '撤销',
+    'ja': '元に戻す',
+    'ko': '되돌리기',
+    'de': 'RÜCKGÄNGIG',
+    'es': 'DESHACER',
+    'fr': 'ANNULER',
+    'it': 'ANNULLA',
+    'pt': 'DESFAZER',
+    'ru': 'ОТМЕНИТЬ',
+    'tr': 'GERİ AL',
+    'id': 'URUNGKAN',
+    'vi': 'HOÀN TÁC',
+    'th': 'เลิกทำ',
+    'ar': 'تراجع'
+};
+
+/**
+ * 根据浏览器语言获取 UNDO 文案
+ */
+export function getUndoText(): string {
+    return translate(undoTranslations);
+}
+
+// 加管道具按钮文案（未收录的语言回退英语）
+const addTubeTranslations: Record<string, string> = {
+    'en': '+1 TUBE',
+    'zh-HK': '加一管',
+    'zh-TW': '加一管',
+    'zh-CN': '加一管',
+    'zh': '加一管',
+    'ja': 'チューブ+1',
+    'ko': '튜브 +1',
+    'de': '+1 RÖHRE',
+    'es': '+1 TUBO',
+    'fr': '+1 TUBE',
+    'it': '+1 PROVETTA',
+    'pt': '+1 TUBO',
+    'ru': '+1 КОЛБА',
+    'tr': '+1 TÜP',
+    'id': '+1 TABUNG',
+    'vi': '+1 ỐNG',
+    'th': '+1 หลอด',
+    'ar': '+1 أنبوب'
+};
+
+/**
+ * 根据浏览器语言获取加管道具文案
+ */
+export function getAddTubeText(): string {
+    return translate(addTubeTranslations);
+}
+
+// 提示按钮文案（未收录的语言回退英语）
+const hintTranslations: Record<string, string> = {
+    'en': 'HINT',
+    'zh-HK': '提示',
+    'zh-TW': '提示',
+    'zh-CN': '提示',
+    'zh': '提示',
+    'ja': 'ヒント',
+    'ko': '힌트',
+    'de': 'TIPP',
+    'es': 'PISTA',
+    'fr': 'INDICE',
+    'it': 'AIUTO',
+    'pt': 'DICA',
+    'ru': 'ПОДСКАЗКА',
+    'tr': 'İPUCU',
+    'id': 'PETUNJUK',
+    'vi': 'GỢI Ý',
+    'th': 'คำใบ้',
+    'ar': 'تلميح'
+};
+
+/**
+ * 根据浏览器语言获取提示按钮文案
+ */
+export function getHintText(): string {
+    return translate(hintTranslations);
+}
+
+// 失败弹窗「重试」按钮文案（未收录的语言回退英语）
+const retryTranslations: Record<string, string> = {
+    'en': 'RETRY',
+    'zh-HK': '重試',
+    'zh-TW': '重試',
+    'zh-CN': '重试',
+    'zh': '重试',
+    'ja': 'リトライ',
+    'ko': '다시 하기',
+    'de': 'NOCHMAL',
+    'es': 'REINTENTAR',
+    'fr': 'RÉESSAYER',
+    'it': 'RIPROVA',
+    'pt': 'TENTAR DE NOVO',
+    'ru': 'ЕЩЁ РАЗ',
+    'tr': 'TEKRAR DENE',
+    'id': 'COBA LAGI',
+    'vi': 'THỬ LẠI',
+    'th': 'ลองอีกครั้ง',
+    'ar': 'إعادة المحاولة'
+};
+
+/**
+ * 根据浏览器语言获取 RETRY 文案
+ */
+export function getRetryText(): string {
+    return translate(retryTranslations);
+}
+
+// 步数 HUD 文案（未收录的语言回退英语）
+const movesTranslations: Record<string, string> = {
+    'en': 'MOVES',
+    'zh-HK': '步數',
+    'zh-TW': '步數',
+    'zh-CN': '步数',
+    'zh': '步数',
+    'ja': '手数',
+    'ko': '이동',
+    'de': 'ZÜGE',
+    'es': 'MOVIMIENTOS',
+    'fr': 'COUPS',
+    'it': 'MOSSE',
+    'pt': 'JOGADAS',
+    'ru': 'ХОДЫ',
+    'tr': 'HAMLE',
+    'id': 'LANGKAH',
+    'vi': 'LƯỢT',
+    'th': 'ตา',
+    'ar': 'الحركات'
+};
+
+/**
+ * 根据浏览器语言获取剩余步数 HUD 文案
+ */
+export function getMovesText(): string {
+    return translate(movesTranslations);
+}
+
+// 胜利弹窗「下一关」按钮文案（未收录的语言回退英语）
+const nextLevelTranslations: Record<string, string> = {
+    'en': 'NEXT LEVEL',
+    'zh-HK': '下一關',
+    'zh-TW': '下一關',
+    'zh-CN': '下一关',
+    'zh': '下一关',
+    'ja': '次のレベル',
+    'ko': '다음 레벨',
+    'de': 'NÄCHSTES LEVEL',
+    'es': 'SIGUIENTE',
+    'fr': 'NIVEAU SUIVANT',
+    'it': 'AVANTI',
+    'pt': 'PRÓXIMO NÍVEL',
+    'ru': 'ДАЛЕЕ',
+    'tr': 'SONRAKİ SEVİYE',
+    'id': 'LEVEL BERIKUTNYA',
+    'vi': 'MÀN TIẾP',
+    'th': 'ด่านถัดไป',
+    'ar': 'المستوى التالي'
+};
+
+/**
+ * 根据浏览器语言获取 NEXT LEVEL 文案
+ */
+export function getNextLevelText(): string {
+    return translate(nextLevelTranslations);
 }
\ No newline at end of file
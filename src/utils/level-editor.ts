@@ -0,0 +1,112 @@
+/**
+ * 关卡编辑器的校验与导出（开发版 LevelEditor 场景使用）
+ * 手工布局经 validatePuzzle 与求解器验证后，导出为 puzzles-config.json / scripts/puzzle-pack.json 的一关或分享码。
+ * 导出的关卡显式写出隐藏层与倒入规则，不受 output-config 中按难度的覆盖影响。
+ */
+
+import { BallColor } from '../game/constants/GameConstants';
+import { normalizePourRules, PourRules } from './board-state';
+import { puzzleResultFromTubes, PuzzleAdapterResult, validatePuzzle } from './puzzle-adapter';
+import { encodePuzzleCode } from './puzzle-code';
+import { ratePuzzle } from './puzzle-rating';
+import { solvePuzzle } from './puzzle-solver';
+import type { LevelDefinition } from './level-list';
+
+/** 编辑器状态（试玩后返回编辑器时原样带回） */
+export interface LevelEditorDraft {
+    /** 每个试管自底向上的颜色 */
+    tubes: BallColor[][];
+    capacity: number;
+    /** 隐藏掩码（与 tubes 同形，true = 隐藏；缺省为全部可见） */
+    hidden?: boolean[][];
+    /** 倒入规则（缺省为经典规则） */
+    pourRules?: PourRules;
+    /** 导出的关卡 id */
+    id: string;
+}
+
+export interface LevelEditorCheck {
+    /** 结构错误或无解，有错误时不能导出 */
+    errors: string[];
+    /** 带解法与评分的谜题；结构不合法时为 null */
+    puzzle: PuzzleAdapterResult | null;
+    /** 按评分推算的难度 1-10；未求解时为 null */
+    difficulty: number | null;
+    solvable: boolean;
+}
+
+/** 编辑器允许的试管数与容量范围，与 resolveLevelShape 一致 */
+export const EDITOR_TUBE_COUNT_RANGE = { min: 3, max: 24 };
+export const EDITOR_CAPACITY_RANGE = { min: 3, max: 15 };
+
+const EDITOR_SOLVER_NODE_BUDGET = 200000;
+
+/** 与当前 tubes 同形的隐藏掩码（增删层后多余或缺少的位按可见处理） */
+export function getDraftHiddenMask(draft: LevelEditorDraft): boolean[][] {
+    return draft.tubes.map((tube, i) => tube.map((_, j) => !!draft.hidden?.[i]?.[j]));
+}
+
+/** 有隐藏层时返回掩码，否则为 undefined（与关卡数据一致） */
+function draftHiddenOrUndefined(draft: LevelEditorDraft): boolean[][] | undefined {
+    const hidden = getDraftHiddenMask(draft);
+    return hidden.some(tube => tube.some(Boolean)) ? hidden : undefined;
+}
+
+/**
+ * 校验布局：每管为空或装满、空管 1-6 个、每色球数为容量倍数、至少 2 个满管，并用求解器确认可解
+ */
+export function checkEditorLevel(draft: LevelEditorDraft, nodeBudget: number = EDITOR_SOLVER_NODE_BUDGET): LevelEditorCheck {
+    const { tubes, capacity } = draft;
+    const errors = validatePuzzle(tubes, undefined, capacity).errors;
+    const filledTubes = tubes.filter(tube => tube.length > 0).length;
+    if (filledTubes < 2) {
+        errors.push(`至少需要 2 个装满的试管（当前 ${filledTubes} 个）`);
+    }
+    if (errors.length) {
+        return { errors, puzzle: null, difficulty: null, solvable: false };
+    }
+
+    const rules = normalizePourRules(draft.pourRules);
+    const puzzle = puzzleResultFromTubes(tubes, 0, capacity, draftHiddenOrUndefined(draft), rules);
+    const result = solvePuzzle(tubes, { capacity, nodeBudget, rules });
+    if (result.status !== 'solved') {
+        errors.push(result.status === 'unsolvable' ? '无解' : `求解器在 ${nodeBudget} 个节点内未找到解`);
+        return { errors, puzzle, difficulty: null, solvable: false };
+    }
+    if (result.moves.length === 0) {
+        errors.push('布局已是完成状态');
+    }
+
+    const metrics = ratePuzzle(tubes, { capacity, solution: result.moves, solutionOptimal: result.optimal, rules });
+    puzzle.solution = result.moves;
+    puzzle.solutionLength = result.moves.length;
+    if (metrics) puzzle.metrics = { ...metrics, optimalProven: result.optimal };
+    // 难度 d 的目标评分区间为 d±1.5，四舍五入的评分必落在其中
+    const difficulty = metrics ? Math.max(1, Math.min(10, Math.round(metrics.rating))) : null;
+    return { errors, puzzle, difficulty, solvable: true };
+}
+
+/**
+ * 导出为关卡列表中的一项（可粘贴进 puzzles-config.json 或 scripts/puzzle-pack.json 的 levels）
+ */
+export function toLevelEntry(draft: LevelEditorDraft, check: LevelEditorCheck): LevelDefinition {
+    if (check.errors.length || !check.puzzle) {
+        throw new Error(`[LevelEditor] 关卡未通过校验: ${check.errors.join('; ')}`);
+    }
+    const { tubes, capacity, id } = draft;
+    return {
+        id,
+        difficulty: check.difficulty ?? 1,
+        tubeCount: tubes.length,
+        capacity,
+        emptyTubeCount: tubes.filter(tube => tube.length === 0).length,
+        hiddenLayers: Math.max(0, ...getDraftHiddenMask(draft).map(tube => tube.filter(Boolean).length)),
+        pourRules: normalizePourRules(draft.pourRules),
+        puzzle: check.puzzle,
+    };
+}
+
+/** 分享码（?puzzle=，含隐藏掩码与倒入规则），结构合法即可生成 */
+export function toEditorShareCode(draft: LevelEditorDraft): string {
+    return encodePuzzleCode(draft.tubes, draft.capacity, getDraftHiddenMask(draft), draft.pourRules);
+}
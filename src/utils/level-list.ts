@@ -0,0 +1,178 @@
+/**
+ * 关卡列表
+ * puzzles-config.json 的 levels 按顺序定义 N 个关卡，每关可自带难度、试管数、颜色、种子、倒入规则等；
+ * 未填的字段按 output-config（levelShapes / levelLimits[难度] 与全局值）补齐。
+ * 选关界面、?level= 与 Game 场景都以该列表为准，通关后进入下一关。
+ */
+
+import { parseEncodedConfig } from './configLoader';
+import puzzlesConfigJson from '../game/config/puzzles-config.json';
+import { BallColor, GAME_CONFIG } from '../game/constants/GameConstants';
+import { normalizePourRules, PourRules } from './board-state';
+import type { PuzzleAdapterResult } from './puzzle-adapter';
+import { getOutputConfigAsync, LevelLimits, LevelShape, OutputConfig, resolveLevelLimits, resolveLevelShape } from './outputConfigLoader';
+
+/** puzzles-config.json 中的一关 */
+export interface LevelDefinition {
+    /** 关卡标识（?level= 使用），缺省为序号（从 1 开始） */
+    id: string;
+    /** 选关卡片上显示的名称，缺省为序号 */
+    name?: string;
+    /** 难度 1-10，换算为目标评分区间；缺省为序号（最大 10） */
+    difficulty: number;
+    tubeCount?: number;
+    capacity?: number;
+    /** 数字为颜色数，数组为调色板；缺省按难度与评分自动选择 */
+    colors?: number | BallColor[];
+    /** 生成种子，指定后每次生成同一谜题 */
+    seed?: string | number;
+    emptyTubeCount?: number;
+    hiddenLayers?: number;
+    pourRules?: Partial<PourRules>;
+    moveLimit?: number;
+    timeLimit?: number;
+    /** generate-puzzles 预生成的谜题；缺失或与规格不符时运行时生成 */
+    puzzle?: PuzzleAdapterResult;
+}
+
+/** 补齐默认值后的关卡 */
+export interface ResolvedLevel extends LevelShape, LevelLimits {
+    /** 在列表中的序号（从 0 开始） */
+    index: number;
+    id: string;
+    name: string;
+    difficulty: number;
+    emptyTubeCount: number;
+    colors?: number | BallColor[];
+    seed?: string | number;
+    puzzle?: PuzzleAdapterResult;
+}
+
+/** 列表为空时的默认关卡，与旧版固定的难度 1/5/9 一致 */
+const DEFAULT_DIFFICULTIES = [1, 5, 9];
+
+let cachedDefinitions: LevelDefinition[] | null = null;
+
+/**
+ * 解析 puzzles-config.json 为关卡列表
+ * - 新格式：{ levels: [...] }，按数组顺序
+ * - 旧格式：{ puzzles: { "1": {...}, "5": {...} } }，键为难度，按难度升序
+ * 无效项跳过并警告；列表为空时回退为难度 1/5/9 三关
+ */
+export function parseLevelList(raw: unknown): LevelDefinition[] {
+    const file = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const legacy = (file.puzzles && typeof file.puzzles === 'object' ? file.puzzles : {}) as Record<string, unknown>;
+    const entries: unknown[] = Array.isArray(file.levels)
+        ? file.levels
+        : Object.keys(legacy)
+            .filter(key => Number.isFinite(Number(key)))
+            .sort((a, b) => Number(a) - Number(b))
+            .map(key => ({ difficulty: Number(key), puzzle: legacy[key] }));
+
+    const levels: LevelDefinition[] = [];
+    for (const entry of entries) {
+        if (!entry || typeof entry !== 'object') {
+            console.warn('[levelList] 忽略无效关卡:', entry);
+            continue;
+        }
+        const level = entry as Partial<LevelDefinition>;
+        const index = levels.length;
+        const difficulty = Number(level.difficulty ?? Math.min(10, index + 1));
+        levels.push({
+            ...level,
+            id: level.id !== undefined ? String(level.id) : String(index + 1),
+            difficulty: Number.isFinite(difficulty) ? Math.max(1, Math.min(10, Math.round(difficulty))) : 1,
+            puzzle: toPuzzleResult(level.puzzle),
+        });
+    }
+
+    if (levels.length === 0) {
+        return DEFAULT_DIFFICULTIES.map((difficulty, index) => ({ id: String(index + 1), difficulty }));
+    }
+    return levels;
+}
+
+/** 预生成谜题可能是扁平结构（旧版 puzzles-config）或 { puzzle } 嵌套结构 */
+function toPuzzleResult(item: unknown): PuzzleAdapterResult | undefined {
+    const value = item as { puzzle?: PuzzleAdapterResult; tubes?: unknown } | undefined;
+    if (value?.puzzle?.tubes) return value.puzzle;
+    if (!value?.tubes) return undefined;
+    const puzzle: Record<string, unknown> = { seedUsed: 0, perColorTubes: [], usedColors: [], ...value };
+    delete puzzle.difficulty;
+    delete puzzle.emptyTubeCount;
+    return puzzle as unknown as PuzzleAdapterResult;
+}
+
+/**
+ * 关卡列表（同步）：生产优先 HTML 嵌入的 puzzles-config.json，否则用打包进来的 JSON
+ */
+export function getLevelDefinitions(): LevelDefinition[] {
+    if (cachedDefinitions) return cachedDefinitions;
+    const embedded = typeof window !== 'undefined' && window.EMBEDDED_CONFIG
+        ? parseEncodedConfig(window.EMBEDDED_CONFIG, 'puzzles-config.json')
+        : null;
+    cachedDefinitions = parseLevelList(embedded ?? puzzlesConfigJson);
+    return cachedDefinitions;
+}
+
+export function getLevelCount(): number {
+    return getLevelDefinitions().length;
+}
+
+/**
+ * 按 ?level= 的值查找关卡序号：先匹配 id，再按从 1 开始的序号；找不到返回 null
+ */
+export function findLevelIndex(value: string): number | null {
+    const levels = getLevelDefinitions();
+    const byId = levels.findIndex(level => level.id === value);
+    if (byId >= 0) return byId;
+    const num = Number(value);
+    if (Number.isInteger(num) && num >= 1 && num <= levels.length) return num - 1;
+    return null;
+}
+
+/**
+ * 补齐某关的规格与失败条件（纯函数，脚本与运行时共用）
+ */
+export function resolveLevel(config: OutputConfig, definition: LevelDefinition, index: number): ResolvedLevel {
+    const { difficulty } = definition;
+    const emptyTubeCount = Number(definition.emptyTubeCount ?? config.emptyTubeCount ?? 2);
+    return {
+        ...resolveLevelShape(config, difficulty, definition),
+        ...resolveLevelLimits(config, difficulty, definition),
+        index,
+        id: definition.id,
+        name: definition.name ?? String(index + 1),
+        difficulty,
+        emptyTubeCount: Number.isInteger(emptyTubeCount) ? Math.max(1, Math.min(6, emptyTubeCount)) : 2,
+        colors: definition.colors,
+        seed: definition.seed,
+        puzzle: definition.puzzle,
+    };
+}
+
+/**
+ * 异步获取某关（序号越界时取最近的一关）
+ */
+export async function getLevelAsync(index: number): Promise<ResolvedLevel> {
+    const config = await getOutputConfigAsync();
+    const levels = getLevelDefinitions();
+    const clamped = Math.max(0, Math.min(levels.length - 1, Math.floor(index) || 0));
+    return resolveLevel(config, levels[clamped], clamped);
+}
+
+/**
+ * 预生成谜题是否与关卡规格一致（改了试管数、容量、空管数、隐藏层或倒入规则后需重新生成）
+ */
+export function isPuzzleForLevel(puzzle: PuzzleAdapterResult | undefined, level: ResolvedLevel): puzzle is PuzzleAdapterResult {
+    if (!puzzle?.tubes?.length) return false;
+    const capacity = puzzle.capacity ?? GAME_CONFIG.TUBE_CAPACITY;
+    const emptyTubes = puzzle.tubes.filter(tube => tube.length === 0).length;
+    // 与生成器一致：至少留 2 个满管
+    const expectedEmptyTubes = Math.min(level.emptyTubeCount, Math.max(1, level.tubeCount - 2));
+    return puzzle.tubes.length === level.tubeCount
+        && capacity === level.capacity
+        && emptyTubes === expectedEmptyTubes
+        && !!puzzle.hidden === level.hiddenLayers > 0
+        && JSON.stringify(normalizePourRules(puzzle.pourRules)) === JSON.stringify(level.pourRules);
+}
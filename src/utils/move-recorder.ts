@@ -0,0 +1,217 @@
+/**
+ * 移动记录与回放格式
+ * 记录一局的种子、初始试管和带时间戳的每次倒入（含撤销/重做与加管道具），序列化为紧凑 JSON。
+ * QA 拿到玩家的记录后由 Board.playMoveLog 按原时间轴重放，或用 verifyMoveLog 在无 Phaser 环境下校验。
+ */
+
+import { BallColor, GAME_CONFIG } from '../game/constants/GameConstants';
+import { BoardState, isDefaultPourRules, normalizePourRules, PourMove, PourRules } from './board-state';
+
+/**
+ * 记录格式版本
+ * 1：倒入/撤销/重做
+ * 2：新增加管记录（类型码 3）、隐藏掩码 hidden 与倒入规则 pourRules
+ */
+export const MOVE_LOG_VERSION = 2;
+
+/** 是否为本版本能回放的记录格式（旧版记录是新版的子集，仍可回放） */
+export function isSupportedMoveLogVersion(version: unknown): boolean {
+    return Number.isInteger(version) && (version as number) >= 1 && (version as number) <= MOVE_LOG_VERSION;
+}
+
+/** 记录类型：正常倒入 / 撤销（按原移动反向倒回）/ 重做 / 加管道具（在末尾追加空试管） */
+export type MoveLogKind = 'move' | 'undo' | 'redo' | 'add-tube';
+
+/**
+ * 单条记录：[距开局毫秒数, 源试管, 目标试管, 单位数]，撤销/重做/加管追加第 5 项（1 = 撤销，2 = 重做，3 = 加管）
+ * 撤销记录的是被撤销的原移动，而不是反向倒入本身；加管记录为 [时间, 新试管索引, 新试管索引, 0, 3]
+ */
+export type MoveLogEntry = [number, number, number, number] | [number, number, number, number, 1 | 2 | 3];
+
+export interface MoveLog {
+    version: number;
+    /** 生成谜题使用的种子（调试布局等非生成谜题为 null） */
+    seed: number | null;
+    /** 试管容量 */
+    capacity: number;
+    /** 开局时的试管内容（末尾为顶部） */
+    tubes: BallColor[][];
+    /** 开局时的隐藏掩码（无隐藏层时省略） */
+    hidden?: boolean[][];
+    /** 倒入规则（经典规则时省略） */
+    pourRules?: PourRules;
+    moves: MoveLogEntry[];
+}
+
+/** 解码后的一步 */
+export interface MoveLogStep {
+    /** 距开局毫秒数 */
+    time: number;
+    move: PourMove;
+    kind: MoveLogKind;
+}
+
+const KIND_CODES: Record<MoveLogKind, 0 | 1 | 2 | 3> = { move: 0, undo: 1, redo: 2, 'add-tube': 3 };
+
+/**
+ * 一局的移动记录器
+ */
+export class MoveRecorder {
+    private readonly log: MoveLog;
+    private readonly startTime: number;
+
+    /**
+     * @param tubes 开局时的试管内容（会被复制）
+     * @param seed 生成谜题使用的种子
+     * @param capacity 试管容量
+     * @param hidden 开局时的隐藏掩码
+     * @param pourRules 倒入规则
+     * @param now 时间源（毫秒），默认 performance.now
+     */
+    constructor(
+        tubes: ReadonlyArray<ReadonlyArray<BallColor>>,
+        seed: number | null,
+        capacity: number = GAME_CONFIG.TUBE_CAPACITY,
+        hidden?: ReadonlyArray<ReadonlyArray<boolean>>,
+        pourRules?: Readonly<PourRules>,
+        private readonly now: () => number = () => performance.now()
+    ) {
+        this.startTime = now();
+        this.log = {
+            version: MOVE_LOG_VERSION,
+            seed,
+            capacity,
+            tubes: tubes.map(tube => tube.slice()),
+            moves: [],
+        };
+        if (hidden?.some(tube => tube.some(Boolean))) {
+            this.log.hidden = hidden.map(tube => tube.slice());
+        }
+        if (pourRules && !isDefaultPourRules(pourRules)) {
+            this.log.pourRules = { ...pourRules };
+        }
+    }
+
+    public get moveCount(): number {
+        return this.log.moves.length;
+    }
+
+    public record(move: PourMove, kind: MoveLogKind = 'move'): void {
+        const time = Math.round(this.now() - this.startTime);
+        const code = KIND_CODES[kind];
+        this.log.moves.push(code === 0
+            ? [time, move.from, move.to, move.count]
+            : [time, move.from, move.to, move.count, code]);
+    }
+
+    /** 导出记录的副本 */
+    public toLog(): MoveLog {
+        return {
+            ...this.log,
+            tubes: this.log.tubes.map(tube => tube.slice()),
+            hidden: this.log.hidden?.map(tube => tube.slice()),
+            pourRules: this.log.pourRules && { ...this.log.pourRules },
+            moves: this.log.moves.map(entry => entry.slice() as MoveLogEntry),
+        };
+    }
+}
+
+/** 解码全部记录 */
+export function readMoveLogSteps(log: MoveLog): MoveLogStep[] {
+    return log.moves.map(([time, from, to, count, code]) => ({
+        time,
+        move: { from, to, count },
+        kind: code === 1 ? 'undo' : code === 2 ? 'redo' : code === 3 ? 'add-tube' : 'move',
+    }));
+}
+
+export function serializeMoveLog(log: MoveLog): string {
+    return JSON.stringify(log);
+}
+
+/**
+ * 解析记录文本，格式不符时抛出异常
+ */
+export function parseMoveLog(text: string): MoveLog {
+    const data = JSON.parse(text);
+    if (!data || typeof data !== 'object') {
+        throw new Error('[MoveLog] 记录不是对象');
+    }
+    if (!isSupportedMoveLogVersion(data.version)) {
+        throw new Error(`[MoveLog] 不支持的版本: ${data.version}`);
+    }
+    if (data.version < 2 && (data.hidden !== undefined || data.pourRules !== undefined)) {
+        throw new Error(`[MoveLog] 版本 ${data.version} 不含 hidden/pourRules`);
+    }
+    if (!Array.isArray(data.tubes) || !data.tubes.every((tube: unknown) => Array.isArray(tube))) {
+        throw new Error('[MoveLog] tubes 格式错误');
+    }
+    if (data.hidden !== undefined && (!Array.isArray(data.hidden) || !data.hidden.every((tube: unknown) => Array.isArray(tube)))) {
+        throw new Error('[MoveLog] hidden 格式错误');
+    }
+    if (!Array.isArray(data.moves)) {
+        throw new Error('[MoveLog] moves 格式错误');
+    }
+    const kindCodes = data.version < 2 ? [1, 2] : [1, 2, 3];
+    for (const entry of data.moves) {
+        const valid = Array.isArray(entry)
+            && (entry.length === 4 || (entry.length === 5 && kindCodes.includes(entry[4])))
+            && entry.slice(0, 4).every((n: unknown) => Number.isInteger(n));
+        if (!valid) {
+            throw new Error(`[MoveLog] 记录项格式错误: ${JSON.stringify(entry)}`);
+        }
+    }
+    return {
+        version: data.version,
+        seed: typeof data.seed === 'number' ? data.seed : null,
+        capacity: typeof data.capacity === 'number' ? data.capacity : GAME_CONFIG.TUBE_CAPACITY,
+        tubes: data.tubes,
+        hidden: data.hidden,
+        pourRules: data.pourRules ? normalizePourRules(data.pourRules) : undefined,
+        moves: data.moves,
+    };
+}
+
+/**
+ * 在纯逻辑棋盘上重放记录并返回最终局面；某一步与局面不符时抛出异常（指明第几步）
+ */
+export function verifyMoveLog(log: MoveLog): BoardState {
+    if (!isSupportedMoveLogVersion(log.version)) {
+        throw new Error(`[MoveLog] 不支持的版本: ${log.version}`);
+    }
+    const state = new BoardState(log.tubes, log.capacity, log.hidden, log.pourRules);
+    const undoStack: PourMove[] = [];
+    const redoStack: PourMove[] = [];
+
+    readMoveLogSteps(log).forEach((step, index) => {
+        const { move, kind } = step;
+        if (kind === 'add-tube') {
+            if (state.addEmptyTube() !== move.from) {
+                throw new Error(`[MoveLog] 第 ${index + 1} 步加管索引不符`);
+            }
+            return;
+        }
+        if (kind === 'undo') {
+            if (!isSameMove(undoStack.pop(), move)) {
+                throw new Error(`[MoveLog] 第 ${index + 1} 步撤销与历史不符`);
+            }
+            state.revertMove(move);
+            redoStack.push(move);
+            return;
+        }
+        if (kind === 'redo' && !isSameMove(redoStack.pop(), move)) {
+            throw new Error(`[MoveLog] 第 ${index + 1} 步重做与历史不符`);
+        }
+        if (state.getPourCount(move.from, move.to) !== move.count) {
+            throw new Error(`[MoveLog] 第 ${index + 1} 步不合法: ${move.from}→${move.to} ×${move.count}`);
+        }
+        state.applyMove(move);
+        undoStack.push(move);
+        if (kind === 'move') redoStack.length = 0;
+    });
+    return state;
+}
+
+function isSameMove(a: PourMove | undefined, b: PourMove): boolean {
+    return !!a && a.from === b.from && a.to === b.to && a.count === b.count;
+}
@@ -0,0 +1,236 @@
+/**
+ * output-config.json 的类型与校验
+ * 规则以 src/game/config/output-config.schema.json（JSON Schema draft-07）为准，运营可在编辑器中对照编辑；
+ * 这里实现其用到的子集，逐项报告无效值与未知配置项（含路径），并返回剔除无效项后的配置。
+ * 构建脚本 scripts/validate-config.ts 与运行时加载共用同一套校验。
+ */
+
+import schemaJson from '../game/config/output-config.schema.json';
+import type { BallColor, TuningKey } from '../game/constants/GameConstants';
+import type { PourRules } from './board-state';
+import type { CtaRule } from './cta-trigger';
+
+/** 按难度覆盖的棋盘规格 */
+export interface LevelShapeConfig {
+    tubeCount?: number;
+    capacity?: number;
+    hiddenLayers?: number;
+    pourRules?: Partial<PourRules>;
+}
+
+/** 按难度覆盖的失败条件 */
+export interface LevelLimitsConfig {
+    moveLimit?: number;
+    timeLimit?: number;
+}
+
+/** output-config.json（各字段说明见 output-config.schema.json） */
+export interface OutputConfig {
+    $schema?: string;
+    difficulty?: number;
+    emptyTubeCount?: number;
+    tubeCount?: number;
+    tubeCapacity?: number;
+    hiddenLayers?: number;
+    pourRules?: Partial<PourRules>;
+    /** 键为难度 "1"-"10" */
+    levelShapes?: Record<string, LevelShapeConfig>;
+    moveLimit?: number;
+    timeLimit?: number;
+    /** 键为难度 "1"-"10" */
+    levelLimits?: Record<string, LevelLimitsConfig>;
+    jumpStepCount?: number;
+    completedTubeCount?: number;
+    pairCountThreshold?: number;
+    clickCountThreshold?: number;
+    ctaTriggers?: CtaRule[];
+    showPopup?: boolean;
+    addButtonUseLimit?: number;
+    hintButtonUseLimit?: number;
+    autoplay?: boolean;
+    /** CTA 跳转的商店地址 */
+    storeUrls?: { ios?: string; android?: string };
+    /** 色值为 "0xRRGGBB" / "#RRGGBB" 或整数 */
+    liquidColors?: Partial<Record<BallColor, string | number>>;
+    /** 动画与尺寸调参，键同 GameConstants 的 DEFAULT_TUNING */
+    tuning?: Partial<Record<TuningKey, number>>;
+}
+
+/** 一条校验问题，path 形如 levelShapes.5.tubeCount、ctaTriggers[2].metric */
+export interface ConfigIssue {
+    path: string;
+    message: string;
+}
+
+export interface ConfigValidationResult {
+    /** 剔除无效值与未知项后的配置 */
+    config: OutputConfig;
+    issues: ConfigIssue[];
+}
+
+/** 校验器支持的 JSON Schema 子集 */
+interface JsonSchema {
+    $ref?: string;
+    type?: string;
+    enum?: unknown[];
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    pattern?: string;
+    properties?: Record<string, JsonSchema>;
+    patternProperties?: Record<string, JsonSchema>;
+    additionalProperties?: boolean;
+    required?: string[];
+    items?: JsonSchema;
+    anyOf?: JsonSchema[];
+    definitions?: Record<string, JsonSchema>;
+}
+
+const ROOT_SCHEMA = schemaJson as JsonSchema;
+
+/** 校验失败时的返回值（与合法的 undefined 区分） */
+const INVALID = Symbol('invalid');
+
+const TYPE_NAMES: Record<string, string> = {
+    integer: '整数',
+    number: '数字',
+    string: '字符串',
+    boolean: '布尔值（true / false）',
+    object: '对象',
+    array: '数组',
+};
+
+/**
+ * 校验 output-config；非对象视为整体无效并返回空配置
+ */
+export function validateOutputConfig(raw: unknown): ConfigValidationResult {
+    const issues: ConfigIssue[] = [];
+    const result = validateValue(raw, ROOT_SCHEMA, '', issues);
+    return {
+        config: result === INVALID ? {} : result as OutputConfig,
+        issues,
+    };
+}
+
+/** 单条问题的可读文本 */
+export function formatConfigIssue(issue: ConfigIssue): string {
+    return `${issue.path || '(根)'}: ${issue.message}`;
+}
+
+/**
+ * 检查商店地址：web 构建（window.open）与 Unity 渠道包（mraid.open）的 CTA 需要 storeUrls 的 iOS / Android 地址
+ */
+export function checkStoreUrls(config: OutputConfig): ConfigIssue[] {
+    return (['ios', 'android'] as const)
+        .filter(platform => !config.storeUrls?.[platform])
+        .map(platform => ({ path: `storeUrls.${platform}`, message: '缺少商店地址，web 构建与 Unity 渠道包的 CTA 无法跳转' }));
+}
+
+function resolveRef(schema: JsonSchema): JsonSchema {
+    if (!schema.$ref) return schema;
+    const name = schema.$ref.replace('#/definitions/', '');
+    const target = ROOT_SCHEMA.definitions?.[name];
+    if (!target) throw new Error(`output-config.schema.json 中找不到 ${schema.$ref}`);
+    return resolveRef(target);
+}
+
+function describeValue(value: unknown): string {
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+function joinPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+        case 'array': return Array.isArray(value);
+        default: return typeof value === type;
+    }
+}
+
+/**
+ * 按 schema 校验一个值，返回清洗后的值或 INVALID
+ * 对象中的无效字段、数组中的无效元素只剔除该项，不影响其余部分
+ */
+function validateValue(value: unknown, rawSchema: JsonSchema, path: string, issues: ConfigIssue[]): unknown {
+    const schema = resolveRef(rawSchema);
+    const fail = (message: string): typeof INVALID => {
+        issues.push({ path, message });
+        return INVALID;
+    };
+
+    if (schema.anyOf) {
+        const matched = schema.anyOf.some(option => validateValue(value, option, path, []) !== INVALID);
+        if (!matched) return fail(`格式不正确，当前为 ${describeValue(value)}`);
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        return fail(`应为 ${schema.enum.map(describeValue).join(' / ')} 之一，当前为 ${describeValue(value)}`);
+    }
+    if (schema.type && !matchesType(value, schema.type)) {
+        return fail(`应为${TYPE_NAMES[schema.type] ?? schema.type}，当前为 ${describeValue(value)}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            return fail(`不能小于 ${schema.minimum}，当前为 ${value}`);
+        }
+        if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+            return fail(`应大于 ${schema.exclusiveMinimum}，当前为 ${value}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            return fail(`不能大于 ${schema.maximum}，当前为 ${value}`);
+        }
+    }
+    if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        return fail(`格式不正确，当前为 ${describeValue(value)}`);
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        const items = schema.items;
+        return value
+            .map((item, index) => validateValue(item, items, joinPath(path, index), issues))
+            .filter(item => item !== INVALID);
+    }
+    if (schema.type === 'object') {
+        return validateObject(value as Record<string, unknown>, schema, path, issues, fail);
+    }
+    return value;
+}
+
+function validateObject(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    path: string,
+    issues: ConfigIssue[],
+    fail: (message: string) => typeof INVALID
+): Record<string, unknown> | typeof INVALID {
+    const missing = (schema.required ?? []).filter(key => value[key] === undefined);
+    if (missing.length) {
+        return fail(`缺少必填项 ${missing.join(', ')}`);
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+        const childPath = joinPath(path, key);
+        const childSchema = schema.properties?.[key]
+            ?? Object.entries(schema.patternProperties ?? {}).find(([pattern]) => new RegExp(pattern).test(key))?.[1];
+        if (!childSchema) {
+            if (schema.additionalProperties === false) {
+                issues.push({ path: childPath, message: '未知配置项' });
+            } else {
+                result[key] = child;
+            }
+            continue;
+        }
+        const validated = validateValue(child, childSchema, childPath, issues);
+        if (validated !== INVALID) result[key] = validated;
+    }
+    // 必填项本身无效（已报告）时整个对象一并剔除
+    const hasAllRequired = (schema.required ?? []).every(key => result[key] !== undefined);
+    return hasAllRequired ? result : INVALID;
+}
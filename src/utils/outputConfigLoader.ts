@@ -4,11 +4,12 @@
  */
 
 import { parseEncodedConfig } from './configLoader';
-import { BallColor, BALL_COLORS, DEFAULT_LIQUID_COLORS } from '../game/constants/GameConstants';
+import { BallColor, BALL_COLORS, DEFAULT_LIQUID_COLORS, DEFAULT_TUNING, GAME_CONFIG, TUNING } from '../game/constants/GameConstants';
+import { normalizePourRules, PourRules } from './board-state';
 import outputConfigJson from '../game/config/output-config.json';
+import { formatConfigIssue, LevelLimitsConfig, LevelShapeConfig, OutputConfig, validateOutputConfig } from './output-config-schema';
 
-// 类型定义
-type OutputConfig = Record<string, any>;
+export type { OutputConfig } from './output-config-schema';
 
 /** 液体颜色缓存（由 output-config 的 liquidColors 与默认值合并得到） */
 let cachedLiquidColors: { [key in BallColor]: number } | null = null;
@@ -27,7 +28,7 @@ function parseColorValue(value: unknown): number | null {
 }
 
 function buildLiquidColorsFromConfig(config: OutputConfig): { [key in BallColor]: number } {
-  const raw = config?.liquidColors && typeof config.liquidColors === 'object' ? config.liquidColors : {};
+  const raw = config.liquidColors ?? {};
   const result = { ...DEFAULT_LIQUID_COLORS };
   for (const color of BALL_COLORS) {
     const parsed = parseColorValue(raw[color]);
@@ -36,6 +37,23 @@ function buildLiquidColorsFromConfig(config: OutputConfig): { [key in BallColor]
   return result;
 }
 
+/** 按配置刷新液体颜色缓存与调参值（未配置的项回到默认值） */
+function applyRuntimeConfig(config: OutputConfig): void {
+  cachedLiquidColors = buildLiquidColorsFromConfig(config);
+  Object.assign(TUNING, DEFAULT_TUNING, config.tuning);
+}
+
+/**
+ * 按 output-config.schema.json 校验，逐项警告无效值与未知配置项；无效项被剔除，回退默认值
+ */
+function toValidatedConfig(raw: unknown): OutputConfig {
+  const { config, issues } = validateOutputConfig(raw);
+  for (const issue of issues) {
+    console.warn(`[output-config] ${formatConfigIssue(issue)}`);
+  }
+  return config;
+}
+
 // 全局变量声明
 declare global {
   interface Window {
@@ -66,8 +84,9 @@ export function getOutputConfig(): OutputConfig {
       if (import.meta.env.DEV) {
         console.log('✅ [生产环境-同步] 成功解析配置');
       }
-      cachedLiquidColors = buildLiquidColorsFromConfig(parsedConfig);
-      return parsedConfig;
+      const config = toValidatedConfig(parsedConfig);
+      applyRuntimeConfig(config);
+      return config;
     } else {
       if (import.meta.env.DEV) {
         console.error('❌ [生产环境-同步] 配置解析失败');
@@ -94,9 +113,9 @@ export async function getOutputConfigAsync(): Promise<OutputConfig> {
 
   // 开发环境：直接使用打包进来的 JSON，无网络延迟
   if (import.meta.env.DEV) {
-    const config = (outputConfigJson as OutputConfig) || {};
+    const config = toValidatedConfig(outputConfigJson);
     cachedConfig = config;
-    cachedLiquidColors = buildLiquidColorsFromConfig(config);
+    applyRuntimeConfig(config);
     return config;
   }
 
@@ -113,9 +132,10 @@ export async function getOutputConfigAsync(): Promise<OutputConfig> {
       if (import.meta.env.DEV) {
         console.log('✅ [生产环境] 成功解析配置:', Object.keys(parsedConfig));
       }
-      cachedConfig = parsedConfig;
-      cachedLiquidColors = buildLiquidColorsFromConfig(parsedConfig);
-      return parsedConfig;
+      const config = toValidatedConfig(parsedConfig);
+      cachedConfig = config;
+      applyRuntimeConfig(config);
+      return config;
     } else {
       if (import.meta.env.DEV) {
         console.error('❌ [生产环境] 配置解析失败');
@@ -141,6 +161,82 @@ export function getLiquidColors(): { [key in BallColor]: number } {
   return cachedLiquidColors ?? DEFAULT_LIQUID_COLORS;
 }
 
+/**
+ * 运行时修改单个液体颜色（开发版调参面板用），由调用方发出 tuning-changed 让场景重绘
+ */
+export function setLiquidColor(color: BallColor, value: number): void {
+  cachedLiquidColors = { ...getLiquidColors(), [color]: value };
+}
+
+/** 关卡棋盘规格 */
+export interface LevelShape {
+  /** 试管总数（含空管） */
+  tubeCount: number;
+  /** 每个试管容量 */
+  capacity: number;
+  /** 每个非空试管自底向上隐藏的层数（神秘层），0 为不隐藏 */
+  hiddenLayers: number;
+  /** 倒入规则 */
+  pourRules: PourRules;
+}
+
+/**
+ * 解析某难度关卡的棋盘规格
+ * 优先 overrides（关卡列表中该关自带的字段），其次 levelShapes[难度]，再次全局 tubeCount / tubeCapacity，最后 GAME_CONFIG 默认的 14×8
+ * 试管数限制在 3-24，容量限制在 3-15（分享码用半字节存储容量）
+ * 隐藏层数同样优先 overrides / levelShapes[难度].hiddenLayers，其次全局 hiddenLayers，限制在 0 到容量-1
+ * 倒入规则优先 overrides / levelShapes[难度].pourRules，其次全局 pourRules，缺省为经典规则
+ */
+export function resolveLevelShape(config: OutputConfig, difficulty: number, overrides?: LevelShapeConfig): LevelShape {
+  const perLevel = { ...config?.levelShapes?.[String(difficulty)], ...definedFields(overrides) };
+  const tubeCount = Number(perLevel.tubeCount ?? config?.tubeCount ?? GAME_CONFIG.TUBE_COUNT);
+  const capacity = Number(perLevel.capacity ?? config?.tubeCapacity ?? GAME_CONFIG.TUBE_CAPACITY);
+  const hiddenLayers = Number(perLevel.hiddenLayers ?? config?.hiddenLayers ?? 0);
+  const resolvedCapacity = Number.isInteger(capacity) ? Math.max(3, Math.min(15, capacity)) : GAME_CONFIG.TUBE_CAPACITY;
+  return {
+    tubeCount: Number.isInteger(tubeCount) ? Math.max(3, Math.min(24, tubeCount)) : GAME_CONFIG.TUBE_COUNT,
+    capacity: resolvedCapacity,
+    hiddenLayers: Number.isInteger(hiddenLayers) ? Math.max(0, Math.min(resolvedCapacity - 1, hiddenLayers)) : 0,
+    pourRules: normalizePourRules(perLevel.pourRules ?? config?.pourRules),
+  };
+}
+
+/**
+ * 异步获取某难度关卡的棋盘规格
+ */
+export async function getLevelShapeAsync(difficulty: number): Promise<LevelShape> {
+  const config = await getOutputConfigAsync();
+  return resolveLevelShape(config, difficulty);
+}
+
+/** 关卡失败条件，0 表示不限 */
+export interface LevelLimits {
+  /** 步数上限（玩家倒入次数，撤销不返还） */
+  moveLimit: number;
+  /** 时间上限（秒，首次点击后开始倒计时） */
+  timeLimit: number;
+}
+
+/**
+ * 解析某难度关卡的失败条件
+ * 优先 overrides（关卡列表中该关自带的字段），其次 levelLimits[难度].moveLimit / timeLimit，再次全局 moveLimit / timeLimit，缺省为不限
+ */
+export function resolveLevelLimits(config: OutputConfig, difficulty: number, overrides?: LevelLimitsConfig): LevelLimits {
+  const perLevel = { ...config?.levelLimits?.[String(difficulty)], ...definedFields(overrides) };
+  const moveLimit = Number(perLevel.moveLimit ?? config?.moveLimit ?? 0);
+  const timeLimit = Number(perLevel.timeLimit ?? config?.timeLimit ?? 0);
+  return {
+    moveLimit: Number.isInteger(moveLimit) && moveLimit > 0 ? moveLimit : 0,
+    timeLimit: Number.isFinite(timeLimit) && timeLimit > 0 ? timeLimit : 0,
+  };
+}
+
+/** 去掉值为 undefined 的字段，避免展开时覆盖下一级配置 */
+function definedFields<T extends object>(obj: T | undefined): Partial<T> {
+  if (!obj) return {};
+  return Object.fromEntries(Object.entries(obj).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
 /**
  * 从 output-config 中获取指定路径的值
  * @param path 配置路径，支持点号分隔的嵌套路径，如 'game.difficulty' 或 'ui.theme.colors.primary'
@@ -3,35 +3,66 @@
  * 将 sort-puzzle-generator 的输出适配到现有游戏系统
  */
 
-import { createPuzzle, GeneratorConfig } from './sort-puzzle-generator';
+import { createPuzzle, GeneratorConfig, GeneratorStrategy, PuzzleResult } from './sort-puzzle-generator';
 import { BallColor, BALL_COLORS, GAME_CONFIG } from '../game/constants/GameConstants';
+import { isDefaultPourRules, PourMove, PourRules } from './board-state';
+import { distanceToBand, PuzzleMetrics, RatingBand, ratePuzzle, ratingBandForDifficulty } from './puzzle-rating';
+
+/** 按评分区间挑选谜题时最多生成的候选数 */
+const MAX_RATING_ATTEMPTS = 6;
 
 /**
  * 适配器配置接口
  */
 export interface PuzzleAdapterConfig {
-    /** 难度等级 1-10，影响颜色数量（颜色数 = difficulty + 2） */
+    /** 难度等级 1-10，换算为目标评分区间；初始颜色数 = difficulty + 2，再按实测评分增减 */
     difficulty: number;
     /** 空管数量，默认2，增加空管会减少满管和球数 */
     emptyTubeCount?: number;
+    /** 试管总数（含空管），默认 GAME_CONFIG.TUBE_COUNT */
+    tubeCount?: number;
+    /** 每个试管容量，默认 GAME_CONFIG.TUBE_CAPACITY */
+    capacity?: number;
     /** 可选的随机种子，用于生成可复现的谜题 */
     seed?: string | number;
-    /** 打乱步数倍率，默认1.0，增大可提高打乱程度 */
+    /** 颜色：数字为固定颜色数，数组为指定调色板（颜色数即数组长度）；指定后不再按评分增减颜色数 */
+    colors?: number | BallColor[];
+    /** 打乱步数倍率，默认1.0，增大可提高打乱程度（仅 reverse 策略使用） */
     shuffleMultiplier?: number;
+    /** 生成策略，默认 verified-shuffle（随机打乱 + 求解器验证，失败时回退 reverse） */
+    strategy?: GeneratorStrategy;
+    /** 目标评分区间，默认 ratingBandForDifficulty(difficulty)；传 null 则只用颜色数 = difficulty + 2 */
+    targetRating?: RatingBand | null;
+    /** 每个非空试管自底向上隐藏的层数（神秘层），默认 0；顶部一层始终可见 */
+    hiddenLayers?: number;
+    /** 倒入规则，默认经典规则；生成器验证、评分与解法均按该规则计算 */
+    pourRules?: PourRules;
 }
 
 /**
  * 适配器返回结果
  */
 export interface PuzzleAdapterResult {
-    /** 谜题内容，BallColor二维数组 */
+    /** 谜题内容，BallColor二维数组（试管数即 tubes.length） */
     tubes: BallColor[][];
+    /** 试管容量；旧版 puzzles-config 中的关卡缺失时为 GAME_CONFIG.TUBE_CAPACITY */
+    capacity?: number;
+    /** 隐藏掩码（与 tubes 同形，true = 神秘层）；无隐藏层时省略 */
+    hidden?: boolean[][];
+    /** 倒入规则；经典规则时省略 */
+    pourRules?: PourRules;
     /** 使用的种子值 */
     seedUsed: number;
     /** 每种颜色的试管分配 */
     perColorTubes: number[];
     /** 实际使用的颜色列表 */
     usedColors: BallColor[];
+    /** 已验证的解法（试管索引与 tubes 一致，按全部可见计算）；旧版 puzzles-config 中的关卡可能缺失 */
+    solution?: PourMove[];
+    /** 解法步数 */
+    solutionLength?: number;
+    /** 实测难度指标（含评分）；旧版 puzzles-config 中的关卡可能缺失 */
+    metrics?: PuzzleMetrics;
 }
 
 /**
@@ -53,59 +84,106 @@ export function generatePuzzleWithAdapter(config: PuzzleAdapterConfig): PuzzleAd
     const {
         difficulty,
         emptyTubeCount = 2,
+        tubeCount = GAME_CONFIG.TUBE_COUNT,
+        capacity = GAME_CONFIG.TUBE_CAPACITY,
         seed,
-        shuffleMultiplier = 1.0
+        colors,
+        shuffleMultiplier = 1.0,
+        strategy,
+        hiddenLayers = 0,
+        pourRules
     } = config;
     
+    const targetRating = config.targetRating === undefined
+        ? ratingBandForDifficulty(difficulty)
+        : config.targetRating;
+    
     // 1. 计算派生参数
-    const colorCount = Math.min(12, Math.max(3, difficulty + 2)); // 3-12种颜色
-    const totalTubes = GAME_CONFIG.TUBE_COUNT;  // 14 (总管数固定)
-    // 空管数量限制在合理范围 (1-6)，确保至少有8个满管
-    const actualEmptyTubes = Math.min(6, Math.max(1, emptyTubeCount));
-    const filledTubes = totalTubes - actualEmptyTubes;  // 满管数 = 14 - 空管数
-    const tubeSize = GAME_CONFIG.TUBE_CAPACITY;  // 8
-    
-    // 2. 计算每种颜色的试管分配
-    // 确保总管数为 filledTubes，且每种颜色至少有1管
-    // 注意：颜色数不能超过满管数
-    const actualColorCount = Math.min(colorCount, filledTubes);
-    const perColorTubes = calculateColorDistribution(actualColorCount, filledTubes);
+    const totalTubes = tubeCount;
+    // 空管数量限制在合理范围 (1-6)，且至少留 2 个满管
+    const actualEmptyTubes = Math.min(6, Math.max(1, emptyTubeCount), Math.max(1, totalTubes - 2));
+    const filledTubes = totalTubes - actualEmptyTubes;  // 满管数 = 总管数 - 空管数
+    const tubeSize = capacity;
+    if (filledTubes < 1) {
+        throw new Error(`[PuzzleAdapter] 试管数过少: ${totalTubes}`);
+    }
+    
+    // 2. 颜色数范围 3-12，且不能超过满管数；初始值 difficulty + 2，关卡指定颜色时以指定为准
+    const minColorCount = Math.min(3, filledTubes);
+    const maxColorCount = Math.min(12, filledTubes);
+    const palette = Array.isArray(colors) ? [...new Set(colors)].filter(color => BALL_COLORS.includes(color)) : undefined;
+    const fixedColorCount = palette?.length || (typeof colors === 'number' ? colors : 0);
+    let colorCount = fixedColorCount > 0
+        ? Math.min(maxColorCount, Math.max(1, Math.floor(fixedColorCount)))
+        : Math.min(maxColorCount, Math.max(minColorCount, difficulty + 2));
     
     // 3. 计算打乱步数（基础200 + 难度加成）
     const baseShuffleSteps = 200;
     const difficultyBonus = difficulty * 20;
     const shuffleSteps = Math.floor((baseShuffleSteps + difficultyBonus) * shuffleMultiplier);
     
-    // 4. 调用新生成器
-    const generatorConfig: GeneratorConfig = {
-        colorCount: actualColorCount,
-        tubeCount: filledTubes,  // 有球的试管数量
-        tubeSize,
-        perColorTubes,
-        shuffleSteps,
-        seed,
-        allowZeroTubesForColor: false,
-        emptyTubeCount: actualEmptyTubes,  // 空试管数量
-    };
-    
-    if (import.meta.env?.DEV) {
-        console.log('[PuzzleAdapter] 生成器配置:', {
-            colorCount: actualColorCount,
-            totalTubes,
-            filledTubes,
-            emptyTubes: actualEmptyTubes,
+    // 4. 调用新生成器并评分；评分偏低加颜色、偏高减颜色，保留最接近目标区间的候选
+    let best: { result: PuzzleResult; colorCount: number; metrics: PuzzleMetrics | null; distance: number } | null = null;
+    const attempts = targetRating && !fixedColorCount ? MAX_RATING_ATTEMPTS : 1;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+        const perColorTubes = calculateColorDistribution(colorCount, filledTubes);
+        const generatorConfig: GeneratorConfig = {
+            colorCount,
+            tubeCount: filledTubes,  // 有球的试管数量
             tubeSize,
             perColorTubes,
             shuffleSteps,
-            seed: seed ?? 'random'
+            seed: deriveAttemptSeed(seed, attempt),
+            allowZeroTubesForColor: false,
+            emptyTubeCount: actualEmptyTubes,  // 空试管数量
+            strategy,
+            pourRules,
+        };
+        
+        if (import.meta.env?.DEV) {
+            console.log('[PuzzleAdapter] 生成器配置:', {
+                colorCount,
+                totalTubes,
+                filledTubes,
+                emptyTubes: actualEmptyTubes,
+                tubeSize,
+                perColorTubes,
+                shuffleSteps,
+                seed: generatorConfig.seed ?? 'random',
+                targetRating
+            });
+        }
+        
+        const result = createPuzzle(generatorConfig);
+        const metrics = ratePuzzle(result.tubes, {
+            capacity: tubeSize,
+            solution: result.solution,
+            solutionOptimal: result.solutionOptimal,
+            rules: pourRules,
         });
+        const distance = targetRating && metrics ? distanceToBand(metrics.rating, targetRating) : Infinity;
+        if (!best || distance < best.distance) {
+            best = { result, colorCount, metrics, distance };
+        }
+        if (!targetRating || distance === 0) break;
+        // 生成器已回退到 reverse（随机打乱难以验证），继续换颜色数只会重复昂贵的验证
+        if (result.strategyUsed !== (strategy ?? 'verified-shuffle')) break;
+        
+        if (metrics && metrics.rating < targetRating.min && colorCount < maxColorCount) {
+            colorCount++;
+        } else if (metrics && metrics.rating > targetRating.max && colorCount > minColorCount) {
+            colorCount--;
+        }
+    }
+    const { result, metrics } = best!;
+    colorCount = best!.colorCount;
+    if (!metrics) {
+        console.warn(`[PuzzleAdapter] 谜题未能评分（${result.strategyUsed}，解法 ${result.solutionLength} 步），难度区间未生效`);
     }
-    
-    const result = createPuzzle(generatorConfig);
     
     // 5. 颜色映射：将数字索引转换为 BallColor
     // 随机选择颜色顺序（如果有seed则使用确定性方法）
-    const usedColors = selectColors(colorCount, result.seedUsed);
+    const usedColors = selectColors(colorCount, result.seedUsed, palette?.length ? palette : undefined);
     
     // 6. 转换试管内容（生成器已经返回包含空管的完整数组）
     const tubeContents: BallColor[][] = result.tubes.map(tube =>
@@ -120,18 +198,72 @@ export function generatePuzzleWithAdapter(config: PuzzleAdapterConfig): PuzzleAd
             filledTubes: tubeContents.filter(t => t.length > 0).length,
             emptyTubes: tubeContents.filter(t => t.length === 0).length,
             usedColors: usedColors.slice(0, colorCount),
-            seedUsed: result.seedUsed
+            seedUsed: result.seedUsed,
+            strategy: result.strategyUsed,
+            solutionLength: result.solutionLength,
+            rating: metrics?.rating
         });
     }
     
+    const hidden = hiddenLayers > 0 ? buildHiddenMask(tubeContents, hiddenLayers) : undefined;
+
     return {
         tubes: tubeContents,
+        capacity: tubeSize,
+        hidden,
+        pourRules: pourRules && !isDefaultPourRules(pourRules) ? pourRules : undefined,
         seedUsed: result.seedUsed,
         perColorTubes: result.perColorTubes,
         usedColors,
+        solution: result.solution,
+        solutionLength: result.solutionLength,
+        metrics: metrics ?? undefined,
     };
 }
 
+/**
+ * 由现成布局（分享码、回放记录等）构造适配结果，不含解法与评分
+ */
+export function puzzleResultFromTubes(
+    tubes: BallColor[][],
+    seedUsed: number = 0,
+    capacity: number = GAME_CONFIG.TUBE_CAPACITY,
+    hidden?: boolean[][],
+    pourRules?: PourRules
+): PuzzleAdapterResult {
+    const colorCounts = new Map<BallColor, number>();
+    for (const tube of tubes) {
+        for (const color of tube) {
+            colorCounts.set(color, (colorCounts.get(color) ?? 0) + 1);
+        }
+    }
+    const usedColors = [...colorCounts.keys()];
+    return {
+        tubes: tubes.map(tube => tube.slice()),
+        capacity,
+        hidden: hidden?.map(tube => tube.slice()),
+        pourRules: pourRules && !isDefaultPourRules(pourRules) ? pourRules : undefined,
+        seedUsed,
+        perColorTubes: usedColors.map(color => Math.ceil(colorCounts.get(color)! / capacity)),
+        usedColors,
+    };
+}
+
+/**
+ * 生成隐藏掩码：每个非空试管自底向上隐藏 hiddenLayers 层，顶部一层始终可见
+ */
+export function buildHiddenMask(tubes: ReadonlyArray<ReadonlyArray<BallColor>>, hiddenLayers: number): boolean[][] {
+    return tubes.map(tube => tube.map((_, i) => i < Math.min(hiddenLayers, tube.length - 1)));
+}
+
+/**
+ * 每个候选使用不同种子：首个候选用原种子，之后在其后追加序号；未指定种子时保持随机
+ */
+function deriveAttemptSeed(seed: string | number | undefined, attempt: number): string | number | undefined {
+    if (seed === undefined || attempt === 0) return seed;
+    return `${seed}#${attempt}`;
+}
+
 /**
  * 计算颜色分配
  * 确保每种颜色至少有1管，总和等于filledTubes
@@ -157,11 +289,11 @@ function calculateColorDistribution(colorCount: number, filledTubes: number): nu
 
 /**
  * 根据seed选择颜色
- * 使用确定性方法确保相同seed产生相同颜色组合
+ * 使用确定性方法确保相同seed产生相同颜色组合；指定调色板时只从调色板中选
  */
-function selectColors(colorCount: number, seed: number): BallColor[] {
+function selectColors(colorCount: number, seed: number, palette: readonly BallColor[] = BALL_COLORS): BallColor[] {
     // 使用简单的确定性打乱
-    const colors = [...BALL_COLORS];
+    const colors = [...palette];
     
     // Fisher-Yates shuffle with seeded random
     let t = seed >>> 0;
@@ -184,14 +316,20 @@ function selectColors(colorCount: number, seed: number): BallColor[] {
  * 验证生成的谜题是否有效
  * @param tubes 谜题试管内容
  * @param expectedEmptyTubes 期望的空试管数量（可选，不传则允许 1-6 个空试管）
+ * @param capacity 试管容量，默认 GAME_CONFIG.TUBE_CAPACITY
+ * @param expectedTubeCount 期望的试管总数（可选，不传则不检查）
  */
-export function validatePuzzle(tubes: BallColor[][], expectedEmptyTubes?: number): { valid: boolean; errors: string[] } {
+export function validatePuzzle(
+    tubes: BallColor[][],
+    expectedEmptyTubes?: number,
+    capacity: number = GAME_CONFIG.TUBE_CAPACITY,
+    expectedTubeCount?: number
+): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
-    const capacity = GAME_CONFIG.TUBE_CAPACITY;
     
     // 检查试管总数
-    if (tubes.length !== GAME_CONFIG.TUBE_COUNT) {
-        errors.push(`试管数量错误: ${tubes.length} != ${GAME_CONFIG.TUBE_COUNT}`);
+    if (expectedTubeCount !== undefined && tubes.length !== expectedTubeCount) {
+        errors.push(`试管数量错误: ${tubes.length} != ${expectedTubeCount}`);
     }
     
     // 统计每种颜色的球数
@@ -221,7 +359,7 @@ export function validatePuzzle(tubes: BallColor[][], expectedEmptyTubes?: number
         errors.push(`空试管数量异常: ${emptyTubeCount} (应为 1-6)`);
     }
     
-    // 检查每种颜色的球数是否为8的倍数
+    // 检查每种颜色的球数是否为容量的倍数
     for (const [color, count] of colorCounts) {
         if (count % capacity !== 0) {
             errors.push(`颜色 ${color} 数量异常: ${count} (应为 ${capacity} 的倍数)`);
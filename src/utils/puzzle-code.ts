@@ -0,0 +1,199 @@
+/**
+ * 谜题分享码
+ * 把 BallColor[][] 布局编码为 URL 安全的短字符串（?puzzle=<code>），策划与 QA 互传精确局面无需改 puzzles-config.json。
+ *
+ * 字节布局（base64url 编码，无填充）：
+ * - [0] 版本号 PUZZLE_CODE_VERSION
+ * - [1] 试管容量（1-15）
+ * - [2] 试管数量
+ * - [3] 标志位（版本 2 起）：bit0-2 为倒入规则 singleUnit / wholeRunOnly / monochromeTarget，bit3 表示带隐藏掩码
+ * - 半字节流：每个试管先写球数，再依次写每个球在 BALL_COLORS 中的下标（自底向上），末尾不足一字节补 0
+ * - 隐藏掩码（有 bit3 时）：按试管、自底向上每个球 1 位（1 = 隐藏），高位在前，末尾不足一字节补 0
+ * - 末 2 字节：前面全部字节的 Fletcher-16 校验和
+ *
+ * 版本 1 没有标志位与隐藏掩码，仍可解码（经典规则、全部可见）。
+ */
+
+import { BallColor, BALL_COLORS, GAME_CONFIG } from '../game/constants/GameConstants';
+import { isDefaultPourRules, PourRules } from './board-state';
+
+export const PUZZLE_CODE_VERSION = 2;
+
+const RULE_FLAGS: ReadonlyArray<[keyof PourRules, number]> = [
+    ['singleUnit', 1 << 0],
+    ['wholeRunOnly', 1 << 1],
+    ['monochromeTarget', 1 << 2],
+];
+const HIDDEN_FLAG = 1 << 3;
+
+/** 试管数上限，与关卡规格及 Board 加管上限一致 */
+const MAX_TUBE_COUNT = 24;
+
+export interface DecodedPuzzle {
+    tubes: BallColor[][];
+    capacity: number;
+    /** 隐藏掩码（无隐藏层时省略） */
+    hidden?: boolean[][];
+    /** 倒入规则（经典规则时省略） */
+    pourRules?: PourRules;
+}
+
+/**
+ * 编码布局（含隐藏掩码与倒入规则）；容量或颜色超出半字节范围时抛出异常
+ */
+export function encodePuzzleCode(
+    tubes: ReadonlyArray<ReadonlyArray<BallColor>>,
+    capacity: number = GAME_CONFIG.TUBE_CAPACITY,
+    hidden?: ReadonlyArray<ReadonlyArray<boolean>>,
+    pourRules?: Readonly<PourRules>
+): string {
+    if (capacity < 1 || capacity > 15) {
+        throw new Error(`[PuzzleCode] 容量超出范围: ${capacity}`);
+    }
+    if (tubes.length < 1 || tubes.length > MAX_TUBE_COUNT) {
+        throw new Error(`[PuzzleCode] 试管数量超出范围: ${tubes.length}`);
+    }
+
+    const nibbles: number[] = [];
+    for (const tube of tubes) {
+        if (tube.length > capacity) {
+            throw new Error(`[PuzzleCode] 试管球数超过容量: ${tube.length} > ${capacity}`);
+        }
+        nibbles.push(tube.length);
+        for (const color of tube) {
+            const index = BALL_COLORS.indexOf(color);
+            if (index < 0 || index > 15) {
+                throw new Error(`[PuzzleCode] 未知颜色: ${color}`);
+            }
+            nibbles.push(index);
+        }
+    }
+
+    const hiddenBits = tubes.flatMap((tube, i) => tube.map((_, j) => !!hidden?.[i]?.[j]));
+    const hasHidden = hiddenBits.some(Boolean);
+    let flags = hasHidden ? HIDDEN_FLAG : 0;
+    for (const [rule, bit] of RULE_FLAGS) {
+        if (pourRules?.[rule]) flags |= bit;
+    }
+
+    const bytes = [PUZZLE_CODE_VERSION, capacity, tubes.length, flags];
+    for (let i = 0; i < nibbles.length; i += 2) {
+        bytes.push((nibbles[i] << 4) | (nibbles[i + 1] ?? 0));
+    }
+    if (hasHidden) {
+        for (let i = 0; i < hiddenBits.length; i += 8) {
+            let byte = 0;
+            for (let b = 0; b < 8; b++) {
+                if (hiddenBits[i + b]) byte |= 0x80 >> b;
+            }
+            bytes.push(byte);
+        }
+    }
+    const checksum = fletcher16(bytes);
+    bytes.push(checksum >> 8, checksum & 0xff);
+    return toBase64Url(bytes);
+}
+
+/**
+ * 解码分享码；格式、版本或校验和不符时抛出异常
+ */
+export function decodePuzzleCode(code: string): DecodedPuzzle {
+    const bytes = fromBase64Url(code.trim());
+    if (bytes.length < 5) {
+        throw new Error('[PuzzleCode] 分享码过短');
+    }
+
+    const body = bytes.slice(0, -2);
+    const checksum = (bytes[bytes.length - 2] << 8) | bytes[bytes.length - 1];
+    if (fletcher16(body) !== checksum) {
+        throw new Error('[PuzzleCode] 校验和不符');
+    }
+    const [version, capacity, tubeCount] = body;
+    if (version !== 1 && version !== PUZZLE_CODE_VERSION) {
+        throw new Error(`[PuzzleCode] 不支持的版本: ${version}`);
+    }
+    if (capacity < 1 || capacity > 15) {
+        throw new Error(`[PuzzleCode] 容量超出范围: ${capacity}`);
+    }
+    if (tubeCount === undefined || tubeCount < 1 || tubeCount > MAX_TUBE_COUNT) {
+        throw new Error(`[PuzzleCode] 试管数量超出范围: ${tubeCount}`);
+    }
+    const headerLength = version === 1 ? 3 : 4;
+    const flags = version === 1 ? 0 : body[3] ?? 0;
+
+    const nibbles: number[] = [];
+    for (let i = headerLength; i < body.length; i++) {
+        nibbles.push(body[i] >> 4, body[i] & 0x0f);
+    }
+
+    const tubes: BallColor[][] = [];
+    let pos = 0;
+    for (let t = 0; t < tubeCount; t++) {
+        const length = nibbles[pos++];
+        if (length === undefined || length > capacity || pos + length > nibbles.length) {
+            throw new Error(`[PuzzleCode] 第 ${t + 1} 个试管数据不完整`);
+        }
+        const tube: BallColor[] = [];
+        for (let i = 0; i < length; i++) {
+            const color = BALL_COLORS[nibbles[pos++]];
+            if (color === undefined) {
+                throw new Error(`[PuzzleCode] 第 ${t + 1} 个试管含未知颜色`);
+            }
+            tube.push(color);
+        }
+        tubes.push(tube);
+    }
+
+    const decoded: DecodedPuzzle = { tubes, capacity };
+    if (flags & HIDDEN_FLAG) {
+        const maskStart = headerLength + Math.ceil(pos / 2);
+        const unitCount = tubes.reduce((sum, tube) => sum + tube.length, 0);
+        if (maskStart + Math.ceil(unitCount / 8) > body.length) {
+            throw new Error('[PuzzleCode] 隐藏掩码数据不完整');
+        }
+        let bit = 0;
+        decoded.hidden = tubes.map(tube => tube.map(() => {
+            const hiddenUnit = (body[maskStart + (bit >> 3)] & (0x80 >> (bit & 7))) !== 0;
+            bit++;
+            return hiddenUnit;
+        }));
+    }
+    const pourRules = {} as PourRules;
+    for (const [rule, bit] of RULE_FLAGS) {
+        pourRules[rule] = (flags & bit) !== 0;
+    }
+    if (!isDefaultPourRules(pourRules)) decoded.pourRules = pourRules;
+    return decoded;
+}
+
+function fletcher16(bytes: ReadonlyArray<number>): number {
+    let sum1 = 0;
+    let sum2 = 0;
+    for (const byte of bytes) {
+        sum1 = (sum1 + byte) % 255;
+        sum2 = (sum2 + sum1) % 255;
+    }
+    return (sum2 << 8) | sum1;
+}
+
+function toBase64Url(bytes: ReadonlyArray<number>): string {
+    return btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): number[] {
+    if (!/^[A-Za-z0-9_-]*$/.test(code)) {
+        throw new Error('[PuzzleCode] 分享码含非法字符');
+    }
+    const base64 = code.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    let binary: string;
+    try {
+        binary = atob(padded);
+    } catch (e) {
+        throw new Error('[PuzzleCode] 分享码不是有效的 base64url');
+    }
+    return Array.from(binary, ch => ch.charCodeAt(0));
+}
@@ -0,0 +1,181 @@
+/**
+ * 提示搜索
+ * 在当前局面上求解，给出最短获胜路线的第一步；求解超出预算时退而给出「安全」的一步：
+ * 走完后仍有合法移动、小预算搜索未证明无解，并按启发式剩余步数择优。
+ * 局面仍有隐藏层时不调用求解器（求解器会看到隐藏颜色），只依据可见信息给出探索步。
+ */
+
+import { BoardState, PourMove } from './board-state';
+import { estimateRemainingMoves, isRedundantMove, solveState } from './puzzle-solver';
+
+export interface HintOptions {
+    /** 求最短解的节点预算，默认 5000 */
+    nodeBudget?: number;
+    /** 安全步检查时每个候选局面的节点预算，默认 300 */
+    safetyBudget?: number;
+}
+
+export type HintKind = 'solution' | 'safe' | 'explore';
+
+export interface HintResult {
+    /** 建议的移动 */
+    move: PourMove;
+    /** solution：来自获胜路线；safe：求解超出预算时的安全步；explore：有隐藏层时只看可见信息的一步 */
+    kind: HintKind;
+    /** 从当前局面出发的完整获胜路线（kind 为 solution 时非空，首项即 move） */
+    line: PourMove[];
+}
+
+/**
+ * 为当前局面找提示；已胜利、无合法移动或已证明无解时返回 null（不修改传入的 state）
+ */
+export function findHint<C extends string | number>(state: BoardState<C>, options: HintOptions = {}): HintResult | null {
+    if (state.isSolved()) return null;
+    if (state.hiddenCount > 0) return findExploreMove(state, options.safetyBudget ?? 300);
+
+    const result = solveState(state, { nodeBudget: options.nodeBudget ?? 5000 });
+    if (result.status === 'solved' && result.moves.length > 0) {
+        return { move: result.moves[0], kind: 'solution', line: result.moves };
+    }
+    if (result.status === 'unsolvable') return null;
+
+    return findSafeMove(state, options.safetyBudget ?? 300);
+}
+
+/**
+ * 安全步：排除走完即卡死或被证明无解的移动；小预算内能找到获胜路线的直接采用，
+ * 其余按剩余步数下界从小到大、移动单位数从多到少择优
+ */
+function findSafeMove<C extends string | number>(state: BoardState<C>, safetyBudget: number): HintResult | null {
+    let best: { move: PourMove; estimate: number } | null = null;
+
+    for (const move of state.getLegalMoves()) {
+        if (isRedundantMove(state, move)) continue;
+
+        const child = state.clone();
+        child.applyMove(move);
+        if (child.isStuck()) continue;
+
+        // 加权搜索：有解时更快找到路线，结论（无解）不受权重影响
+        const probe = solveState(child, { nodeBudget: safetyBudget, weight: 3 });
+        if (probe.status === 'unsolvable') continue;
+        if (probe.status === 'solved') {
+            return { move, kind: 'solution', line: [move, ...probe.moves] };
+        }
+
+        const estimate = estimateRemainingMoves(child);
+        if (!best || estimate < best.estimate || (estimate === best.estimate && move.count > best.move.count)) {
+            best = { move, estimate };
+        }
+    }
+
+    return best ? { move: best.move, kind: 'safe', line: [] } : null;
+}
+
+/**
+ * 可见局面探查结果
+ * - reveal：找到露出神秘层的最短路线（line 为该路线）
+ * - no-reveal：穷尽可达局面也无法露出神秘层，但途中可能因隐藏层同色而完成试管或获胜，不能断定无解
+ * - exhausted：穷尽可达局面既无法露出神秘层也不可能获胜（只凭可见信息即可断定无解）
+ * - budget-exceeded：超出预算，结论未知
+ */
+export interface RevealProbeResult {
+    status: 'reveal' | 'no-reveal' | 'exhausted' | 'budget-exceeded';
+    line: PourMove[];
+}
+
+/**
+ * 有神秘层时的局面探查：只使用可见信息（隐藏单位替换为互不相同的占位颜色），广度优先找露出神秘层的最短路线。
+ * 在露出新层之前真实局面的移动规则与可见局面一致，唯一的差别是隐藏层恰好同色时试管会完成或直接获胜，单独记录
+ */
+export function probeReveal<C extends string | number>(state: BoardState<C>, nodeBudget: number): RevealProbeResult {
+    const start = toVisibleState(state);
+    let mayWin = mayBeSolved(start);
+
+    const seen = new Set<string>([start.toKey()]);
+    let frontier: { state: BoardState<string>; line: PourMove[] }[] = [{ state: start, line: [] }];
+    let expanded = 0;
+
+    while (frontier.length > 0) {
+        const next: typeof frontier = [];
+        for (const { state: current, line } of frontier) {
+            if (expanded++ >= nodeBudget) return { status: 'budget-exceeded', line: [] };
+            for (const move of current.getLegalMoves()) {
+                if (isRedundantMove(current, move)) continue;
+                const child = current.clone();
+                child.applyMove(move);
+                if (isPlaceholder(child.getTopColor(move.from))) return { status: 'reveal', line: [...line, move] };
+                const key = child.toKey();
+                if (seen.has(key)) continue;
+                seen.add(key);
+                mayWin = mayWin || mayCompleteHidden(child, move.to) || mayBeSolved(child);
+                next.push({ state: child, line: [...line, move] });
+            }
+        }
+        frontier = next;
+    }
+    return { status: mayWin ? 'no-reveal' : 'exhausted', line: [] };
+}
+
+/**
+ * 探索步：能装满一管同色时直接采用；否则走露出神秘层的最短路线的第一步（每走一步离揭开更近，不会来回倒）；
+ * 无法再露出新层时返回 null；超出预算时按可见部分的剩余步数下界择优
+ */
+function findExploreMove<C extends string | number>(state: BoardState<C>, nodeBudget: number): HintResult | null {
+    const visible = toVisibleState(state);
+    const candidates = visible.getLegalMoves().filter(move => !isRedundantMove(visible, move));
+    if (candidates.length === 0) return null;
+
+    for (const move of candidates) {
+        const child = visible.clone();
+        child.applyMove(move);
+        if (child.isTubeCompleted(move.to)) return { move, kind: 'explore', line: [] };
+    }
+
+    const probe = probeReveal(state, nodeBudget);
+    if (probe.status === 'reveal') return { move: probe.line[0], kind: 'explore', line: [] };
+    if (probe.status !== 'budget-exceeded') return null;
+
+    let best: { move: PourMove; estimate: number } | null = null;
+    for (const move of candidates) {
+        const child = visible.clone();
+        child.applyMove(move);
+        const estimate = estimateRemainingMoves(child);
+        if (!best || estimate < best.estimate || (estimate === best.estimate && move.count > best.move.count)) {
+            best = { move, estimate };
+        }
+    }
+    return best ? { move: best.move, kind: 'explore', line: [] } : null;
+}
+
+/** 试管已满、含隐藏单位且可见部分同色：隐藏层同色时真实局面会完成并揭开 */
+function mayCompleteHidden(state: BoardState<string>, index: number): boolean {
+    const tube = state.getTube(index);
+    return state.isFull(index) && tube.some(isPlaceholder) && isVisiblyMonochrome(tube);
+}
+
+/** 每个试管的可见部分都同色时，隐藏层若恰好配合，真实局面可能已获胜 */
+function mayBeSolved(state: BoardState<string>): boolean {
+    for (let i = 0; i < state.tubeCount; i++) {
+        if (!isVisiblyMonochrome(state.getTube(i))) return false;
+    }
+    return true;
+}
+
+function isVisiblyMonochrome(tube: ReadonlyArray<string>): boolean {
+    const colors = new Set(tube.filter(color => !isPlaceholder(color)));
+    return colors.size <= 1;
+}
+
+function isPlaceholder(color: string | null): boolean {
+    return color !== null && color.startsWith('?');
+}
+
+/** 隐藏单位替换为互不相同的占位颜色，保证后续推演不会用到真实颜色 */
+function toVisibleState<C extends string | number>(state: BoardState<C>): BoardState<string> {
+    const tubes: string[][] = [];
+    for (let i = 0; i < state.tubeCount; i++) {
+        tubes.push(state.getTube(i).map((color, j) => (state.isHidden(i, j) ? `?${i}:${j}` : String(color))));
+    }
+    return new BoardState<string>(tubes, state.capacity, undefined, state.rules);
+}
@@ -0,0 +1,274 @@
+/**
+ * 谜题包构建
+ * 供 scripts/generate-puzzles.ts 离线使用：按规格文件批量生成关卡，逐关验证可解、评分，
+ * 并剔除重标颜色、交换试管后与已有关卡相同的重复谜题，最后输出 puzzles-config 与可读报告。
+ */
+
+import { BoardState } from './board-state';
+import { PuzzleAdapterResult, validatePuzzle } from './puzzle-adapter';
+import { distanceToBand, ratePuzzle, RatingBand } from './puzzle-rating';
+import { solvePuzzle } from './puzzle-solver';
+import { generateLevelPuzzle } from './puzzleCache';
+import { isPuzzleForLevel, LevelDefinition, parseLevelList, resolveLevel, ResolvedLevel } from './level-list';
+import type { OutputConfig } from './output-config-schema';
+
+/**
+ * 规格文件中的一项：一关，或 count 关同规格的关卡
+ * 带 puzzle 的项（关卡编辑器导出的手工关卡）验证通过后原样保留，不重新生成
+ */
+export interface PackSpecEntry extends Partial<LevelDefinition> {
+    /** 按该项生成的关卡数，默认 1；大于 1 时 id 与 seed 追加 -1、-2… */
+    count?: number;
+    /** 目标评分区间，超出时换种子重试，重试用尽后保留最接近的并记为警告 */
+    rating?: RatingBand;
+}
+
+/** 规格文件 */
+export interface PackSpec {
+    /** 各项的默认字段 */
+    defaults?: PackSpecEntry;
+    levels: PackSpecEntry[];
+}
+
+export interface PackLevelReport {
+    level: ResolvedLevel;
+    /** 生成次数（--check 时为 0） */
+    attempts: number;
+    solutionLength: number | null;
+    /** 解法是否为已证明的最短解 */
+    optimal: boolean;
+    rating: number | null;
+    /** 致命问题：不可解、规格不符、重复等，关卡不会写入 */
+    errors: string[];
+    /** 非致命问题：评分超出目标区间等 */
+    warnings: string[];
+    /** 被拒绝的候选及原因 */
+    rejected: string[];
+}
+
+export interface PackResult {
+    levels: Array<LevelDefinition & { puzzle: PuzzleAdapterResult }>;
+    reports: PackLevelReport[];
+    ok: boolean;
+}
+
+export interface BuildPackOptions {
+    /** 每关最多生成次数，默认 8 */
+    maxAttempts?: number;
+    /** 无预生成解法时求解器的节点预算，默认 200000 */
+    nodeBudget?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_VERIFY_NODE_BUDGET = 200000;
+
+/**
+ * 展开规格文件为关卡列表：合并 defaults，按 count 复制，id 缺省为序号
+ */
+export function expandPackSpec(spec: PackSpec): { definitions: LevelDefinition[]; ratingBands: Array<RatingBand | undefined> } {
+    const entries: Array<Record<string, unknown>> = [];
+    const ratingBands: Array<RatingBand | undefined> = [];
+    for (const raw of spec.levels ?? []) {
+        const { count = 1, rating, ...entry } = { ...spec.defaults, ...raw };
+        const copies = Math.max(1, Math.floor(Number(count)) || 1);
+        for (let k = 0; k < copies; k++) {
+            const suffix = copies > 1 ? `-${k + 1}` : '';
+            entries.push({
+                ...entry,
+                id: entry.id !== undefined ? `${entry.id}${suffix}` : undefined,
+                seed: entry.seed !== undefined ? `${entry.seed}${suffix}` : undefined,
+            });
+            ratingBands.push(rating);
+        }
+    }
+    return { definitions: parseLevelList({ levels: entries }), ratingBands };
+}
+
+/**
+ * 重复判定键：对颜色重标与试管排列不变
+ * 颜色按「出现在哪些试管的哪些位置」迭代细化为编号（颜色细化），再把试管按编号序列排序拼接；
+ * 隐藏层、容量与倒入规则不同的布局不算重复
+ */
+export function canonicalPuzzleKey(puzzle: PuzzleAdapterResult, capacity: number, rules: unknown): string {
+    const { tubes, hidden } = puzzle;
+    const colors = [...new Set(tubes.flat())];
+    let labels = new Map(colors.map(color => [color, 0]));
+    let labelCount = 1;
+    const tubeKeys = () => tubes.map((tube, t) =>
+        tube.map((color, i) => `${labels.get(color)}${hidden?.[t]?.[i] ? '?' : ''}`).join(','));
+
+    for (let round = 0; round < colors.length; round++) {
+        const keys = tubeKeys();
+        const signatures = new Map(colors.map(color => [color, [] as string[]]));
+        tubes.forEach((tube, t) => tube.forEach((color, i) => signatures.get(color)!.push(`${keys[t]}@${i}`)));
+        const byColor = new Map(colors.map(color => [color, `${labels.get(color)}:${signatures.get(color)!.sort().join(';')}`]));
+        const ranks = [...new Set(byColor.values())].sort();
+        labels = new Map(colors.map(color => [color, ranks.indexOf(byColor.get(color)!)]));
+        if (ranks.length === labelCount) break;
+        labelCount = ranks.length;
+    }
+    return `${capacity}|${JSON.stringify(rules)}|${tubeKeys().sort().join('|')}`;
+}
+
+/**
+ * 验证一关：结构合法、与关卡规格一致、可解（按全部可见重放解法，没有解法时用求解器）
+ */
+export function verifyLevelPuzzle(
+    puzzle: PuzzleAdapterResult | undefined,
+    level: ResolvedLevel,
+    nodeBudget: number = DEFAULT_VERIFY_NODE_BUDGET
+): { errors: string[]; solutionLength: number | null; optimal: boolean } {
+    if (!isPuzzleForLevel(puzzle, level)) {
+        return { errors: ['谜题缺失或与关卡规格不符'], solutionLength: null, optimal: false };
+    }
+    const errors = validatePuzzle(puzzle.tubes, undefined, level.capacity, level.tubeCount).errors;
+
+    if (puzzle.solution?.length) {
+        const state = new BoardState(puzzle.tubes, level.capacity, undefined, level.pourRules);
+        const illegal = puzzle.solution.findIndex(move => !state.pour(move.from, move.to));
+        if (illegal >= 0) {
+            errors.push(`解法第 ${illegal + 1} 步不合法`);
+        } else if (!state.isSolved()) {
+            errors.push('解法走完后未胜利');
+        } else {
+            return { errors, solutionLength: puzzle.solution.length, optimal: !!puzzle.metrics?.optimalProven };
+        }
+    }
+
+    const result = solvePuzzle(puzzle.tubes, { capacity: level.capacity, rules: level.pourRules, nodeBudget });
+    if (result.status === 'solved') {
+        return { errors, solutionLength: result.moves.length, optimal: result.optimal };
+    }
+    errors.push(result.status === 'unsolvable' ? '无解' : `求解器在 ${nodeBudget} 个节点内未找到解`);
+    return { errors, solutionLength: null, optimal: false };
+}
+
+/**
+ * 按关卡列表生成谜题包；每关生成后验证、评分与去重，不通过时换种子重试
+ */
+export function buildPuzzlePack(
+    config: OutputConfig,
+    definitions: LevelDefinition[],
+    ratingBands: Array<RatingBand | undefined> = [],
+    options: BuildPackOptions = {}
+): PackResult {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    const seen = new Map<string, string>();
+    const levels: PackResult['levels'] = [];
+    const reports: PackLevelReport[] = [];
+
+    definitions.forEach((definition, index) => {
+        const level = resolveLevel(config, definition, index);
+        const band = ratingBands[index];
+        const report: PackLevelReport = {
+            level, attempts: 0, solutionLength: null, optimal: false, rating: null, errors: [], warnings: [], rejected: [],
+        };
+        let best: { puzzle: PuzzleAdapterResult; key: string; distance: number; verdict: ReturnType<typeof verifyLevelPuzzle> } | null = null;
+        const handmade = definition.puzzle;
+
+        for (let attempt = 0; attempt < (handmade ? 1 : maxAttempts); attempt++) {
+            report.attempts = attempt + 1;
+            const seed = level.seed === undefined || attempt === 0 ? level.seed : `${level.seed}~${attempt}`;
+            const puzzle = handmade ?? generateLevelPuzzle({ ...level, seed });
+            const verdict = verifyLevelPuzzle(puzzle, level, options.nodeBudget);
+            if (verdict.errors.length) {
+                report.rejected.push(`#${attempt + 1}: ${verdict.errors.join('；')}`);
+                continue;
+            }
+            const key = canonicalPuzzleKey(puzzle, level.capacity, level.pourRules);
+            const duplicateOf = seen.get(key);
+            if (duplicateOf !== undefined) {
+                report.rejected.push(`#${attempt + 1}: 与关卡 ${duplicateOf} 重复`);
+                continue;
+            }
+            const rating = puzzle.metrics?.rating;
+            const distance = band && rating !== undefined ? distanceToBand(rating, band) : 0;
+            if (!best || distance < best.distance) best = { puzzle, key, distance, verdict };
+            if (distance === 0) break;
+            report.rejected.push(`#${attempt + 1}: 评分 ${rating ?? '-'} 不在 ${band!.min}-${band!.max}`);
+        }
+
+        if (!best) {
+            report.errors.push(handmade ? '手工关卡未通过验证或去重' : `${maxAttempts} 次生成均未通过验证或去重`);
+        } else {
+            seen.set(best.key, level.id);
+            report.solutionLength = best.verdict.solutionLength;
+            report.optimal = best.verdict.optimal;
+            report.rating = best.puzzle.metrics?.rating ?? null;
+            if (report.rating === null) report.warnings.push('未能评分，未按难度区间筛选');
+            if (best.distance > 0) report.warnings.push(`评分 ${report.rating} 不在目标区间 ${band!.min}-${band!.max}`);
+            levels.push({ ...definition, puzzle: best.puzzle });
+        }
+        reports.push(report);
+    });
+
+    return { levels, reports, ok: reports.every(report => report.errors.length === 0) };
+}
+
+/**
+ * 检查现有关卡（不重新生成）：验证可解、补评分并检查重复
+ */
+export function checkPuzzlePack(
+    config: OutputConfig,
+    definitions: LevelDefinition[],
+    options: BuildPackOptions = {}
+): PackResult {
+    const seen = new Map<string, string>();
+    const levels: PackResult['levels'] = [];
+    const reports = definitions.map((definition, index) => {
+        const level = resolveLevel(config, definition, index);
+        const verdict = verifyLevelPuzzle(definition.puzzle, level, options.nodeBudget);
+        const report: PackLevelReport = {
+            level, attempts: 0, solutionLength: verdict.solutionLength, optimal: verdict.optimal, rating: null,
+            errors: verdict.errors, warnings: [], rejected: [],
+        };
+        const puzzle = definition.puzzle;
+        if (!verdict.errors.length && puzzle) {
+            const key = canonicalPuzzleKey(puzzle, level.capacity, level.pourRules);
+            const duplicateOf = seen.get(key);
+            if (duplicateOf !== undefined) report.errors.push(`与关卡 ${duplicateOf} 重复`);
+            seen.set(key, level.id);
+            report.rating = puzzle.metrics?.rating
+                ?? ratePuzzle(puzzle.tubes, { capacity: level.capacity, rules: level.pourRules, solution: puzzle.solution })?.rating
+                ?? null;
+            if (report.rating === null) report.warnings.push('未能评分');
+            levels.push({ ...definition, puzzle });
+        }
+        return report;
+    });
+    return { levels, reports, ok: reports.every(report => report.errors.length === 0) };
+}
+
+/**
+ * 可读报告（Markdown）：每关一行汇总，问题与被拒候选列在表格之后
+ */
+export function formatPackReport(result: PackResult, title: string): string {
+    const lines = [
+        `# ${title}`,
+        '',
+        `${result.reports.length} 关，${result.reports.filter(r => r.errors.length).length} 关失败，${result.reports.filter(r => r.warnings.length).length} 关有警告`,
+        '',
+        '| # | id | 难度 | 试管×容量 | 空管 | 隐藏层 | 颜色 | 评分 | 解法步数 | 生成次数 | 状态 |',
+        '|---|----|------|-----------|------|--------|------|------|----------|----------|------|',
+    ];
+    for (const report of result.reports) {
+        const { level } = report;
+        const colors = result.levels.find(item => item.id === level.id)?.puzzle.usedColors.length ?? '-';
+        const moves = report.solutionLength === null ? '-' : `${report.solutionLength}${report.optimal ? '' : '（非最优）'}`;
+        const status = report.errors.length ? '❌' : report.warnings.length ? '⚠️' : '✅';
+        lines.push(`| ${level.index + 1} | ${level.id} | ${level.difficulty} | ${level.tubeCount}×${level.capacity} | ${level.emptyTubeCount} | ${level.hiddenLayers} | ${colors} | ${report.rating ?? '-'} | ${moves} | ${report.attempts || '-'} | ${status} |`);
+    }
+
+    const details = result.reports.filter(r => r.errors.length || r.warnings.length || r.rejected.length);
+    if (details.length) {
+        lines.push('', '## 详情', '');
+        for (const report of details) {
+            lines.push(`### ${report.level.id}`, '');
+            report.errors.forEach(error => lines.push(`- 错误：${error}`));
+            report.warnings.forEach(warning => lines.push(`- 警告：${warning}`));
+            report.rejected.forEach(rejected => lines.push(`- 拒绝候选 ${rejected}`));
+            lines.push('');
+        }
+    }
+    return lines.join('\n').trimEnd() + '\n';
+}
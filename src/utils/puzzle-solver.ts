@@ -0,0 +1,219 @@
+/**
+ * 倒水排序求解器
+ * 输入 generatePuzzleWithAdapter 产出的 BallColor[][]（或任意 BoardState），
+ * 返回最短（或有界最优）移动序列，或在穷尽全部可达局面后给出「无解」证明。
+ *
+ * 算法：A*（weight=1 时结果最优；weight>1 时为加权 A*，解长度不超过 weight × 最优）
+ * - 状态去重：试管顺序无关的规范化键（试管排列对称）
+ * - 启发式：Σ(每管颜色段数-1) + Σ(每种颜色多出的「底段」数)，每步最多减少 1，可采纳且一致
+ * - nodeBudget 限制扩展节点数，超出时返回 budget-exceeded（既不保证有解也不保证无解）
+ */
+
+import { BallColor, GAME_CONFIG } from '../game/constants/GameConstants';
+import { BoardState, PourMove, PourRules } from './board-state';
+
+export interface SolverOptions {
+    /** 试管容量，默认 GAME_CONFIG.TUBE_CAPACITY（传入 BoardState 时使用其容量） */
+    capacity?: number;
+    /** 最多扩展的节点数，默认 50000 */
+    nodeBudget?: number;
+    /** 启发式权重，1 = 最优解；>1 更快但解可能更长（不超过 weight 倍） */
+    weight?: number;
+    /** 倒入规则，默认经典规则（传入 BoardState 时使用其规则） */
+    rules?: PourRules;
+}
+
+export type SolveStatus = 'solved' | 'unsolvable' | 'budget-exceeded';
+
+export interface SolveResult {
+    status: SolveStatus;
+    /** 从初始局面到胜利的移动序列（仅 status 为 solved 时非空） */
+    moves: PourMove[];
+    /** moves 是否为已证明的最短解 */
+    optimal: boolean;
+    /** 实际扩展的节点数 */
+    nodesExpanded: number;
+}
+
+export const DEFAULT_SOLVER_NODE_BUDGET = 50000;
+
+interface SearchNode {
+    state: BoardState<number>;
+    g: number;
+    f: number;
+    h: number;
+    parent: SearchNode | null;
+    move: PourMove | null;
+}
+
+/**
+ * 求解一个谜题
+ * @param tubes 试管内容（末尾为顶部）
+ * @param options 求解配置
+ */
+export function solvePuzzle<C extends string | number = BallColor>(
+    tubes: ReadonlyArray<ReadonlyArray<C>>,
+    options: SolverOptions = {}
+): SolveResult {
+    return solveState(new BoardState<C>(tubes, options.capacity ?? GAME_CONFIG.TUBE_CAPACITY, undefined, options.rules), options);
+}
+
+/**
+ * 从给定局面开始求解（不修改传入的 state）
+ */
+export function solveState<C extends string | number>(state: BoardState<C>, options: SolverOptions = {}): SolveResult {
+    const nodeBudget = options.nodeBudget ?? DEFAULT_SOLVER_NODE_BUDGET;
+    const weight = Math.max(1, options.weight ?? 1);
+    const start = toIndexedState(state);
+
+    const startH = estimateRemainingMoves(start);
+    const open = new MinHeap<SearchNode>(compareNodes);
+    const bestG = new Map<string, number>();
+    open.push({ state: start, g: 0, h: startH, f: weight * startH, parent: null, move: null });
+    bestG.set(start.toKey(), 0);
+
+    let nodesExpanded = 0;
+    while (open.size > 0) {
+        const node = open.pop()!;
+        const key = node.state.toKey();
+        if ((bestG.get(key) ?? Infinity) < node.g) continue; // 已有更短路径，过期节点
+
+        if (node.state.isSolved()) {
+            return { status: 'solved', moves: buildPath(node), optimal: weight === 1, nodesExpanded };
+        }
+        if (nodesExpanded >= nodeBudget) {
+            return { status: 'budget-exceeded', moves: [], optimal: false, nodesExpanded };
+        }
+        nodesExpanded++;
+
+        for (const move of node.state.getLegalMoves()) {
+            if (isRedundantMove(node.state, move)) continue;
+
+            const child = node.state.clone();
+            child.applyMove(move);
+            const childKey = child.toKey();
+            const g = node.g + 1;
+            if ((bestG.get(childKey) ?? Infinity) <= g) continue;
+            bestG.set(childKey, g);
+
+            const h = estimateRemainingMoves(child);
+            open.push({ state: child, g, h, f: g + weight * h, parent: node, move });
+        }
+    }
+
+    // 所有可达局面均已穷尽且没有胜利局面：无解
+    return { status: 'unsolvable', moves: [], optimal: false, nodesExpanded };
+}
+
+/**
+ * 剩余步数下界（A* 启发式，可采纳）
+ * - 每个试管底段之上的每个颜色段至少需要一次移动才能离开
+ * - 每种颜色的「底段」多于所需试管数时，多出的每个底段至少需要一次移动来合并
+ */
+export function estimateRemainingMoves<C extends string | number>(state: BoardState<C>): number {
+    let runsAboveBottom = 0;
+    const bottomRuns = new Map<C, number>();
+    const colorTotals = new Map<C, number>();
+
+    for (let i = 0; i < state.tubeCount; i++) {
+        const tube = state.getTube(i);
+        if (tube.length === 0) continue;
+        bottomRuns.set(tube[0], (bottomRuns.get(tube[0]) ?? 0) + 1);
+        for (let j = 0; j < tube.length; j++) {
+            colorTotals.set(tube[j], (colorTotals.get(tube[j]) ?? 0) + 1);
+            if (j > 0 && tube[j] !== tube[j - 1]) runsAboveBottom++;
+        }
+    }
+
+    let extraBottoms = 0;
+    for (const [color, runs] of bottomRuns) {
+        const needed = Math.ceil((colorTotals.get(color) ?? 0) / state.capacity);
+        extraBottoms += Math.max(0, runs - needed);
+    }
+    return runsAboveBottom + extraBottoms;
+}
+
+/**
+ * 无意义的移动：把整管同色倒入空管只是交换试管位置，规范化后与当前局面相同
+ */
+export function isRedundantMove<C extends string | number>(state: BoardState<C>, move: PourMove): boolean {
+    return state.isEmpty(move.to) && state.isMonochrome(move.from)
+        && move.count === state.getTube(move.from).length;
+}
+
+/** 颜色映射为小整数，加快比较与键生成（保留隐藏掩码） */
+function toIndexedState<C extends string | number>(state: BoardState<C>): BoardState<number> {
+    const colorIndex = new Map<C, number>();
+    const tubes: number[][] = [];
+    for (let i = 0; i < state.tubeCount; i++) {
+        tubes.push(state.getTube(i).map(color => {
+            let index = colorIndex.get(color);
+            if (index === undefined) {
+                index = colorIndex.size;
+                colorIndex.set(color, index);
+            }
+            return index;
+        }));
+    }
+    return new BoardState<number>(tubes, state.capacity, state.hiddenCount > 0 ? state.getHiddenMask() : undefined, state.rules);
+}
+
+function buildPath(node: SearchNode): PourMove[] {
+    const moves: PourMove[] = [];
+    for (let n: SearchNode | null = node; n && n.move; n = n.parent) {
+        moves.push(n.move);
+    }
+    return moves.reverse();
+}
+
+/** f 小优先；f 相同时 h 小优先（更接近终局） */
+function compareNodes(a: SearchNode, b: SearchNode): number {
+    return a.f !== b.f ? a.f - b.f : a.h - b.h;
+}
+
+/**
+ * 最小堆（open 列表）
+ */
+class MinHeap<T> {
+    private items: T[] = [];
+
+    constructor(private readonly compare: (a: T, b: T) => number) {}
+
+    public get size(): number {
+        return this.items.length;
+    }
+
+    public push(item: T): void {
+        const items = this.items;
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.compare(items[i], items[parent]) >= 0) break;
+            [items[i], items[parent]] = [items[parent], items[i]];
+            i = parent;
+        }
+    }
+
+    public pop(): T | undefined {
+        const items = this.items;
+        if (items.length === 0) return undefined;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+                if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+                if (smallest === i) break;
+                [items[i], items[smallest]] = [items[smallest], items[i]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
@@ -1,81 +1,47 @@
 /**
  * 谜题缓存
- * 优先从 HTML 嵌入的 puzzles-config.json 加载固定关卡，无需生成或 localStorage
+ * 按关卡列表（puzzles-config.json 的 levels）缓存每关谜题：
+ * 优先使用关卡自带的预生成谜题，其次 localStorage，缺失时在进入该关时才生成
  */
 
-import { parseEncodedConfig } from './configLoader';
-import puzzlesConfigJson from '../game/config/puzzles-config.json';
 import { generatePuzzleWithAdapter, PuzzleAdapterResult } from './puzzle-adapter';
-import { getOutputConfigAsync, getOutputConfigValueAsync } from './outputConfigLoader';
+import { getOutputConfigAsync } from './outputConfigLoader';
+import { getLevelAsync, getLevelDefinitions, isPuzzleForLevel, resolveLevel, ResolvedLevel } from './level-list';
 
 export interface CachedPuzzleData {
   puzzle: PuzzleAdapterResult;
   difficulty: number;
   emptyTubeCount: number;
+  /** 关卡序号（从 0 开始） */
+  levelIndex: number;
 }
 
-const STORAGE_KEY = 'ballsort-puzzles-v1';
+const STORAGE_KEY = 'ballsort-puzzles-v2';
 
 interface StoredPuzzles {
   version: number;
-  emptyTubeCount: number;
-  puzzles: Record<string, CachedPuzzleData>;
+  /** 键为关卡规格签名，改动关卡配置后旧谜题自然失效 */
+  puzzles: Record<string, PuzzleAdapterResult>;
 }
 
-const cache = new Map<string, CachedPuzzleData>();
+const cache = new Map<number, CachedPuzzleData>();
 
 /** 预生成完成后的 Promise，Preloader 可 await 确保缓存就绪 */
 let _pregeneratePromise: Promise<void> | null = null;
 
-function cacheKey(difficulty: number, emptyTubeCount: number): string {
-  return `${difficulty}-${emptyTubeCount}`;
+/** 影响生成结果的关卡字段 */
+function levelSignature(level: ResolvedLevel): string {
+  const { id, difficulty, tubeCount, capacity, emptyTubeCount, hiddenLayers, pourRules, colors, seed } = level;
+  return JSON.stringify({ id, difficulty, tubeCount, capacity, emptyTubeCount, hiddenLayers, pourRules, colors, seed });
 }
 
-/** 将 JSON 项（扁平或嵌套）转为 CachedPuzzleData */
-function toCachedPuzzleData(
-  item: any,
-  difficulty: number,
-  emptyTubeCount: number
-): CachedPuzzleData | null {
-  if (!item) return null;
-  if (item.puzzle?.tubes) return item as CachedPuzzleData;
-  if (item.tubes) {
-    return {
-      puzzle: {
-        tubes: item.tubes,
-        seedUsed: item.seedUsed ?? 0,
-        perColorTubes: item.perColorTubes ?? [],
-        usedColors: item.usedColors ?? [],
-      },
-      difficulty: item.difficulty ?? difficulty,
-      emptyTubeCount: item.emptyTubeCount ?? emptyTubeCount,
-    };
-  }
-  return null;
-}
-
-/** 从嵌入配置或 fetch 加载 puzzles-config.json，返回 StoredPuzzles 或 null */
-async function loadPuzzlesConfig(emptyTubeCount: number): Promise<StoredPuzzles | null> {
-  const filename = 'puzzles-config.json';
-
-  // 生产：从 window.EMBEDDED_CONFIG 解析
-  if (typeof window !== 'undefined' && (window as any).EMBEDDED_CONFIG) {
-    const parsed = parseEncodedConfig((window as any).EMBEDDED_CONFIG, filename);
-    if (parsed?.puzzles && typeof parsed.emptyTubeCount === 'number' && parsed.emptyTubeCount === emptyTubeCount) {
-      return parsed as StoredPuzzles;
-    }
-    return null;
-  }
-
-  // 开发：直接使用打包进来的 JSON，无网络延迟
-  if (import.meta.env.DEV) {
-    const parsed = puzzlesConfigJson as unknown as StoredPuzzles;
-    if (parsed?.puzzles && typeof parsed.emptyTubeCount === 'number' && parsed.emptyTubeCount === emptyTubeCount) {
-      return parsed;
-    }
-    return null;
-  }
-  return null;
+function toCachedPuzzleData(puzzle: PuzzleAdapterResult, level: ResolvedLevel): CachedPuzzleData {
+  return {
+    puzzle,
+    difficulty: level.difficulty,
+    emptyTubeCount: level.emptyTubeCount,
+    levelIndex: level.index,
+  };
 }
 
 function loadFromStorage(): StoredPuzzles | null {
@@ -83,20 +49,17 @@ function loadFromStorage(): StoredPuzzles | null {
     const raw = localStorage.getItem(STORAGE_KEY);
     if (!raw) return null;
     const parsed = JSON.parse(raw) as StoredPuzzles;
-    if (!parsed?.puzzles || typeof parsed.emptyTubeCount !== 'number') return null;
+    if (!parsed?.puzzles || typeof parsed.puzzles !== 'object') return null;
     return parsed;
   } catch {
     return null;
   }
 }
 
-function saveToStorage(emptyTubeCount: number, data: Record<string, CachedPuzzleData>): void {
+function saveToStorage(level: ResolvedLevel, puzzle: PuzzleAdapterResult): void {
   try {
-    const stored: StoredPuzzles = {
-      version: 1,
-      emptyTubeCount,
-      puzzles: data,
-    };
+    const stored: StoredPuzzles = loadFromStorage() ?? { version: 2, puzzles: {} };
+    stored.puzzles[levelSignature(level)] = puzzle;
     localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
   } catch (e) {
     if (import.meta.env?.DEV) {
@@ -105,14 +68,41 @@ function saveToStorage(emptyTubeCount: number, data: Record<string, CachedPuzzle
   }
 }
 
+/**
+ * 按关卡规格生成谜题
+ */
+export function generateLevelPuzzle(level: ResolvedLevel): PuzzleAdapterResult {
+  return generatePuzzleWithAdapter({
+    difficulty: level.difficulty,
+    emptyTubeCount: level.emptyTubeCount,
+    tubeCount: level.tubeCount,
+    capacity: level.capacity,
+    colors: level.colors,
+    seed: level.seed,
+    hiddenLayers: level.hiddenLayers,
+    pourRules: level.pourRules,
+  });
+}
+
 /**
  * 获取缓存的谜题，若无则返回 null
  */
-export function getCachedPuzzle(
-  difficulty: number,
-  emptyTubeCount: number
-): CachedPuzzleData | null {
-  return cache.get(cacheKey(difficulty, emptyTubeCount)) ?? null;
+export function getCachedPuzzle(levelIndex: number): CachedPuzzleData | null {
+  return cache.get(levelIndex) ?? null;
+}
+
+/**
+ * 获取某关谜题：有缓存直接返回，否则生成并写入缓存与 localStorage
+ */
+export async function getLevelPuzzleAsync(levelIndex: number): Promise<CachedPuzzleData> {
+  const level = await getLevelAsync(levelIndex);
+  const cached = cache.get(level.index);
+  if (cached) return cached;
+
+  const item = toCachedPuzzleData(generateLevelPuzzle(level), level);
+  cache.set(level.index, item);
+  saveToStorage(level, item.puzzle);
+  return item;
 }
 
 /**
@@ -125,67 +115,28 @@ export function waitForPregenerate(): Promise<void> {
 }
 
 /**
- * 应用启动时调用：优先从 HTML 嵌入的 puzzles-config 加载；若无则 localStorage，最后才生成
+ * 应用启动时调用：优先使用关卡自带的预生成谜题（嵌入的 puzzles-config），其次 localStorage；
+ * 都没有的关卡不在启动时生成，由 getLevelPuzzleAsync 在进入该关时生成
  */
 export function pregeneratePuzzles(): void {
   _pregeneratePromise = getOutputConfigAsync()
-    .then(async () => {
-      const emptyTubeCount = Math.max(
-        1,
-        Math.min(6, await getOutputConfigValueAsync<number>('emptyTubeCount', 2))
-      );
-
-      // 1. 优先：嵌入的 puzzles-config.json（生产）或 fetch（开发）
-      const fromConfig = await loadPuzzlesConfig(emptyTubeCount);
-      if (fromConfig?.puzzles) {
-        const difficulties = [1, 5, 9];
-        for (const d of difficulties) {
-          const key = String(d);
-          const item = fromConfig.puzzles[key];
-          const parsed = toCachedPuzzleData(item, d, emptyTubeCount);
-          if (parsed) cache.set(cacheKey(d, emptyTubeCount), parsed);
-        }
-        return undefined;
-      }
-
-      // 2. 其次：localStorage
+    .then((config) => {
       const stored = loadFromStorage();
-      if (stored && stored.emptyTubeCount === emptyTubeCount && stored.puzzles) {
-        const difficulties = [1, 5, 9];
-        for (const d of difficulties) {
-          const key = String(d);
-          const item = stored.puzzles[key];
-          if (item?.puzzle?.tubes) {
-            cache.set(cacheKey(d, emptyTubeCount), item);
-          }
+      getLevelDefinitions().forEach((definition, index) => {
+        const level = resolveLevel(config, definition, index);
+        if (isPuzzleForLevel(level.puzzle, level)) {
+          cache.set(index, toCachedPuzzleData(level.puzzle, level));
+          return;
         }
-        return undefined;
-      }
-
-      // 3. 最后：运行时生成
-      const puzzles: Record<string, CachedPuzzleData> = {};
-      const difficulties = [1, 5, 9];
-      for (const d of difficulties) {
-        try {
-          const puzzle = generatePuzzleWithAdapter({
-            difficulty: d,
-            emptyTubeCount,
-          });
-          const item = { puzzle, difficulty: d, emptyTubeCount };
-          cache.set(cacheKey(d, emptyTubeCount), item);
-          puzzles[String(d)] = item;
-        } catch (e) {
-          if (import.meta.env?.DEV) {
-            console.warn(`[puzzleCache] 生成难度 ${d} 失败:`, e);
-          }
+        const fromStorage = stored?.puzzles[levelSignature(level)];
+        if (fromStorage?.tubes) {
+          cache.set(index, toCachedPuzzleData(fromStorage, level));
         }
-      }
-      saveToStorage(emptyTubeCount, puzzles);
+      });
     })
-    .then(() => undefined)
     .catch((e) => {
       if (import.meta.env?.DEV) {
         console.warn('[puzzleCache] 预生成失败:', e);
       }
-    }) as Promise<void>;
+    });
 }
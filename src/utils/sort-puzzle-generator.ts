@@ -1,11 +1,19 @@
 /**
  * Water Sort Puzzle Generator (Phaser-friendly, browser-friendly)
  * --------------------------------------------------------------
- * - Fully solvable puzzles (reverse generation).
+ * - Every returned puzzle is provably solvable (a solution is attached).
+ * - Two strategies:
+ *     "verified-shuffle" (default): random shuffle with a color-diversity
+ *       check, verified by the A* solver; unsolvable/unproven shuffles are
+ *       retried, and after maxAttempts it falls back to "reverse".
+ *     "reverse": start from the solved state and apply up to shuffleSteps
+ *       reverse moves (each checked against the forward pour rule), grouped
+ *       into macros that keep every tube full or empty; needs an empty tube.
  * - colorCount configurable.
  * - tubeCount / tubeSize configurable.
  * - Per-color tube occupation (perColorTubes) optional.
- * - Reverse shuffle to ensure solvability.
+ * - Pour rules (pourRules) optional; shuffles are verified and reverse moves
+ *   checked under the same rules the board will enforce.
  * - Pure TypeScript, no Node APIs, works in Phaser/Vite/Playable Ads.
  * 
  * Exported Function:
@@ -24,8 +32,14 @@
  *   - tubes: number[][]  (12 tubes, each up to 8 layers, top at end)
  *   - perColorTubes: number[]  (colors' full-tube distribution)
  *   - seedUsed: number  (actual numeric seed)
+ *   - solution: PourMove[]  (a verified move sequence that solves tubes)
+ *   - solutionLength: number  (solution.length)
+ *   - solutionOptimal: boolean  (true if the solver proved it shortest)
  */
 
+import { BoardState, DEFAULT_POUR_RULES, isDefaultPourRules, PourMove, PourRules } from './board-state';
+import { solvePuzzle } from './puzzle-solver';
+
 export type Tube = number[];      // top = rightmost
 export type Puzzle = Tube[];
 
@@ -38,12 +52,22 @@ export interface GeneratorConfig {
   seed?: number | string;         // for deterministic generation
   allowZeroTubesForColor?: boolean; // default false
   emptyTubeCount?: number;        // number of empty tubes for shuffling space, default 0
+  strategy?: GeneratorStrategy;   // default "verified-shuffle"
+  maxAttempts?: number;           // verified-shuffle retries before falling back, default 10
+  solverNodeBudget?: number;      // solver budget per verification, default 5000
+  pourRules?: PourRules;          // pour rules the puzzle is played under, default classic
 }
 
+export type GeneratorStrategy = "verified-shuffle" | "reverse";
+
 export interface PuzzleResult {
   tubes: Puzzle;
   perColorTubes: number[];
   seedUsed: number;
+  solution: PourMove[];
+  solutionLength: number;
+  solutionOptimal: boolean;
+  strategyUsed: GeneratorStrategy;
 }
 
 /* ========================================================================== */
@@ -119,39 +143,170 @@ function autoDistributeTubes(
 }
 
 /* ========================================================================== */
-/*                       Pour rule helpers for reverse-shuffle                */
+/*                        Reverse-move helpers (BoardState)                   */
 /* ========================================================================== */
 
-function canPour(from: Tube, to: Tube, tubeSize: number): boolean {
-  if (from.length === 0) return false;
-  if (to.length >= tubeSize) return false;
-  const color = from[from.length - 1];
-  if (to.length === 0) return true;
-  return to[to.length - 1] === color;
+/**
+ * Apply one reverse move: lift `forward.count` units off `forward.to` back
+ * onto `forward.from`. It is kept only if pouring forward.from -> forward.to
+ * afterwards is legal and moves exactly that many units; otherwise the
+ * state is restored and false is returned.
+ */
+function tryReverse(state: BoardState<number>, forward: PourMove): boolean {
+  state.revertMove(forward);
+  if (state.getPourCount(forward.from, forward.to) === forward.count) return true;
+  state.applyMove(forward);
+  return false;
 }
 
 /**
- * Pour balls from one tube to another (for reverse shuffling)
- * @param maxPour - Maximum balls to pour in one operation (1-3 for better shuffling)
+ * Reverse macro: swap the top `k` units of two full tubes through an empty
+ * buffer tube (3 reverse moves). A reverse move may only expose a top of
+ * the same color, so a random reverse walk almost never gets back to the
+ * "every tube full or empty" layout; this macro always does.
+ * Forward solution of one macro: b -> buffer, a -> b, buffer -> a.
+ *
+ * Only the top run of a tube can be lifted later, so every unit of a run
+ * left buried under the swapped-in segment is lost for further macros.
+ * To scramble as deep as possible, k is the largest legal swap (one unit
+ * of each run stays behind) and pairs with equal top runs are preferred,
+ * so nothing else gets buried. If the preferred pair cannot be swapped
+ * under the pour rules (e.g. monochromeTarget), the other pairs are tried
+ * before giving up.
  */
-function pourOnce(from: Tube, to: Tube, tubeSize: number, maxPour: number = 8): number {
-  if (!canPour(from, to, tubeSize)) return 0;
-
-  const color = from[from.length - 1];
-  let moved = 0;
-  const limit = Math.min(maxPour, tubeSize - to.length);
-
-  while (
-    moved < limit &&
-    from.length > 0 &&
-    from[from.length - 1] === color &&
-    to.length < tubeSize
-  ) {
-    to.push(from.pop()!);
-    moved++;
+function swapTopSegments(
+  state: BoardState<number>,
+  undoStack: PourMove[],
+  rng: () => number
+): boolean {
+  const buffers: number[] = [];
+  const pairs: Array<[number, number]> = [];
+  for (let a = 0; a < state.tubeCount; a++) {
+    if (state.isEmpty(a)) {
+      buffers.push(a);
+      continue;
+    }
+    if (!state.isFull(a) || state.getTopRunLength(a) < 2) continue;
+    for (let b = a + 1; b < state.tubeCount; b++) {
+      if (!state.isFull(b) || state.getTopRunLength(b) < 2) continue;
+      if (state.getTopColor(a) !== state.getTopColor(b)) pairs.push([a, b]);
+    }
   }
+  if (buffers.length === 0 || pairs.length === 0) return false;
+
+  const buffer = buffers[Math.floor(rng() * buffers.length)];
+  const buried = ([a, b]: [number, number]) => Math.abs(state.getTopRunLength(a) - state.getTopRunLength(b));
+  // random order, then least buried first
+  const candidates = pairs
+    .map(pair => ({ pair, key: buried(pair) + rng() }))
+    .sort((x, y) => x.key - y.key)
+    .map(({ pair }) => pair);
 
-  return moved;
+  for (const [a, b] of candidates) {
+    // single-unit pours can only undo one unit at a time
+    const k = state.rules.singleUnit ? 1 : Math.min(state.getTopRunLength(a), state.getTopRunLength(b)) - 1;
+    const macro: PourMove[] = [
+      { from: buffer, to: a, count: k },
+      { from: a, to: b, count: k },
+      { from: b, to: buffer, count: k },
+    ];
+    const applied: PourMove[] = [];
+    for (const forward of macro) {
+      if (!tryReverse(state, forward)) break;
+      applied.push(forward);
+    }
+    if (applied.length === macro.length) {
+      undoStack.push(...applied);
+      return true;
+    }
+    // the pour rules reject this pair; roll back the partial macro
+    while (applied.length > 0) state.applyMove(applied.pop()!);
+  }
+  return false;
+}
+
+/**
+ * Reverse scrambles shallower than this fraction of the expected depth are
+ * retried. The expected depth is shuffleSteps, capped by what the macro
+ * reaches on the same layout under classic rules (it stops by itself once
+ * every top run is a single unit, usually well before shuffleSteps).
+ */
+const MIN_REVERSE_DEPTH_FRACTION = 0.5;
+
+/**
+ * Reverse generation from a solved layout: apply swap macros until
+ * shuffleSteps reverse moves have been made (or no macro applies).
+ * Returns the scrambled tubes, the forward solution and the number of
+ * reverse moves actually made.
+ */
+function reverseShuffle(
+  solved: Puzzle,
+  tubeSize: number,
+  shuffleSteps: number,
+  rng: () => number,
+  rules: PourRules
+): { tubes: Puzzle; solution: PourMove[]; steps: number } {
+  const state = new BoardState<number>(solved, tubeSize, undefined, rules);
+  const undoStack: PourMove[] = [];   // forward moves, last one first to play
+
+  while (undoStack.length < shuffleSteps) {
+    if (!swapTopSegments(state, undoStack, rng)) break;
+  }
+
+  return { tubes: state.toArray(), solution: undoStack.reverse(), steps: undoStack.length };
+}
+
+/**
+ * Reverse generation with a depth check: a scramble that stops early (the
+ * pour rules leave no legal macro) is retried up to `attempts` times and
+ * the deepest one is kept; a warning is logged if even that one is shallow.
+ */
+function deepestReverseShuffle(
+  solved: Puzzle,
+  tubeSize: number,
+  shuffleSteps: number,
+  rng: () => number,
+  rules: PourRules,
+  attempts: number
+): { tubes: Puzzle; solution: PourMove[]; steps: number } {
+  const classic = isDefaultPourRules(rules);
+  const expectedSteps = classic
+    ? shuffleSteps
+    : Math.min(shuffleSteps, reverseShuffle(solved, tubeSize, shuffleSteps, seededRng(0), DEFAULT_POUR_RULES).steps);
+  const minSteps = classic ? 0 : Math.ceil(expectedSteps * MIN_REVERSE_DEPTH_FRACTION);
+  let best = reverseShuffle(solved, tubeSize, shuffleSteps, rng, rules);
+  for (let attempt = 1; attempt < attempts && best.steps < minSteps; attempt++) {
+    const next = reverseShuffle(solved, tubeSize, shuffleSteps, rng, rules);
+    if (next.steps > best.steps) best = next;
+  }
+  if (best.steps < minSteps) {
+    console.warn(`[PuzzleGenerator] Reverse generation only reached ${best.steps}/${expectedSteps} scramble steps under the pour rules`);
+  }
+  return best;
+}
+
+/**
+ * Randomly permute the filled tubes (empty tubes stay at the end) so the
+ * solved-state order does not leak through the bottom layers, remapping
+ * solution indices to match.
+ */
+function permuteFilledTubes(
+  tubes: Puzzle,
+  solution: PourMove[],
+  filledCount: number,
+  rng: () => number
+): { tubes: Puzzle; solution: PourMove[] } {
+  const order = tubes.map((_, i) => i);
+  for (let i = filledCount - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const newIndex = new Array<number>(tubes.length);
+  order.forEach((oldIdx, idx) => { newIndex[oldIdx] = idx; });
+  return {
+    tubes: order.map(i => tubes[i]),
+    solution: solution.map(m => ({ from: newIndex[m.from], to: newIndex[m.to], count: m.count })),
+  };
 }
 
 /* ========================================================================== */
@@ -167,6 +322,10 @@ export function createPuzzle(config: GeneratorConfig): PuzzleResult {
     shuffleSteps = 200,
     seed,
     allowZeroTubesForColor = false,
+    strategy = "verified-shuffle",
+    maxAttempts = 10,
+    solverNodeBudget = 5000,
+    pourRules = DEFAULT_POUR_RULES,
   } = config;
 
   if (tubeSize <= 0 || tubeCount <= 0 || colorCount <= 0)
@@ -189,7 +348,7 @@ export function createPuzzle(config: GeneratorConfig): PuzzleResult {
       throw new Error("perColorTubes must sum to tubeCount");
 
     if (!allowZeroTubesForColor) {
-      for (let v of perColorTubes) {
+      for (const v of perColorTubes) {
         if (v <= 0)
           throw new Error("perColorTubes contains <= 0 but allowZero=false");
       }
@@ -227,39 +386,100 @@ export function createPuzzle(config: GeneratorConfig): PuzzleResult {
     tubes.push([]);
   }
   
-  const totalTubes = tubeCount + emptyTubes;
-
   /* -------------------------------------------------------------- */
-  /* Step 3: Advanced shuffle - ensure minimum color diversity      */
-  /* Each tube must have at least 3 different colors                */
+  /* Step 3a: Verified shuffle - random shuffle with color          */
+  /* diversity, kept only if the solver finds a solution            */
   /* -------------------------------------------------------------- */
-  
-  // Collect all balls into a flat array
-  const allBalls: number[] = [];
-  for (const tube of tubes) {
-    for (const ball of tube) {
-      allBalls.push(ball);
+  if (strategy === "verified-shuffle") {
+    // Collect all balls into a flat array
+    const allBalls: number[] = [];
+    for (const tube of tubes) {
+      for (const ball of tube) {
+        allBalls.push(ball);
+      }
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const candidate = shuffleWithDiversity(allBalls, tubeCount, tubeSize, colorCount, rng);
+      for (let i = 0; i < emptyTubes; i++) {
+        candidate.push([]);
+      }
+
+      const verdict = solvePuzzle(candidate, { capacity: tubeSize, nodeBudget: solverNodeBudget, rules: pourRules });
+      if (verdict.status === "solved") {
+        if (import.meta.env?.DEV) {
+          const diversities = candidate.slice(0, tubeCount).map(t => new Set(t).size);
+          console.log(`[PuzzleGenerator] Verified shuffle after ${attempt} attempts:`);
+          console.log(`  - ${tubeCount} filled tubes, ${emptyTubes} empty tubes`);
+          console.log(`  - Color diversity per tube: min=${Math.min(...diversities)}, max=${Math.max(...diversities)}`);
+          console.log(`  - Solution: ${verdict.moves.length} moves (${verdict.nodesExpanded} nodes)`);
+        }
+        return {
+          tubes: candidate,
+          perColorTubes: distribution,
+          seedUsed,
+          solution: verdict.moves,
+          solutionLength: verdict.moves.length,
+          solutionOptimal: verdict.optimal,
+          strategyUsed: "verified-shuffle",
+        };
+      }
+    }
+
+    if (import.meta.env?.DEV) {
+      console.warn(`[PuzzleGenerator] No verified shuffle in ${maxAttempts} attempts, falling back to reverse generation`);
     }
   }
-  
+
+  /* -------------------------------------------------------------- */
+  /* Step 3b: Reverse generation - solvable by construction         */
+  /* -------------------------------------------------------------- */
+  if (emptyTubes === 0)
+    throw new Error("Reverse generation needs at least one empty tube");
+
+  const reversed = deepestReverseShuffle(tubes, tubeSize, shuffleSteps, rng, pourRules, maxAttempts);
+  const permuted = permuteFilledTubes(reversed.tubes, reversed.solution, tubeCount, rng);
+  if (import.meta.env?.DEV) {
+    console.log(`[PuzzleGenerator] Reverse generation: ${permuted.solution.length} moves`);
+  }
+
+  return {
+    tubes: permuted.tubes,
+    perColorTubes: distribution,
+    seedUsed,
+    solution: permuted.solution,
+    solutionLength: permuted.solution.length,
+    solutionOptimal: false,
+    strategyUsed: "reverse",
+  };
+}
+
+/**
+ * Fisher-Yates shuffle of all balls into the filled tubes, retried until
+ * each tube has at least min(3, colorCount) different colors (best effort).
+ */
+function shuffleWithDiversity(
+  allBalls: number[],
+  tubeCount: number,
+  tubeSize: number,
+  colorCount: number,
+  rng: () => number
+): Puzzle {
   const minColorsPerTube = Math.min(3, colorCount); // At least 3 colors per tube (or all if fewer colors exist)
   const maxShuffleAttempts = 100;
   let finalTubes: Puzzle = [];
-  let attemptCount = 0;
-  
-  while (attemptCount < maxShuffleAttempts) {
-    attemptCount++;
-    
+
+  for (let attemptCount = 0; attemptCount < maxShuffleAttempts; attemptCount++) {
     // Fisher-Yates shuffle
     for (let i = allBalls.length - 1; i > 0; i--) {
       const j = Math.floor(rng() * (i + 1));
       [allBalls[i], allBalls[j]] = [allBalls[j], allBalls[i]];
     }
-    
+
     // Redistribute balls back to filled tubes
     finalTubes = [];
     let ballIndex = 0;
-    
+
     for (let t = 0; t < tubeCount; t++) {
       const tube: Tube = [];
       for (let b = 0; b < tubeSize; b++) {
@@ -267,38 +487,12 @@ export function createPuzzle(config: GeneratorConfig): PuzzleResult {
       }
       finalTubes.push(tube);
     }
-    
+
     // Validate: ensure each tube has at least minColorsPerTube different colors
-    let colorDiversityMet = true;
-    for (let t = 0; t < tubeCount; t++) {
-      const colors = new Set(finalTubes[t]);
-      if (colors.size < minColorsPerTube) {
-        colorDiversityMet = false;
-        break;
-      }
-    }
-    
-    if (colorDiversityMet) {
+    if (finalTubes.every(tube => new Set(tube).size >= minColorsPerTube)) {
       break;
     }
   }
-  
-  // Add empty tubes at the end
-  for (let i = 0; i < emptyTubes; i++) {
-    finalTubes.push([]);
-  }
-  
-  // Log final state
-  const diversities = finalTubes.slice(0, tubeCount).map(t => new Set(t).size);
-  if (import.meta.env?.DEV) {
-    console.log(`[PuzzleGenerator] Shuffle complete after ${attemptCount} attempts:`);
-    console.log(`  - ${tubeCount} filled tubes, ${emptyTubes} empty tubes`);
-    console.log(`  - Color diversity per tube: min=${Math.min(...diversities)}, max=${Math.max(...diversities)}`);
-  }
 
-  return {
-    tubes: finalTubes,
-    perColorTubes: distribution,
-    seedUsed,
-  };
+  return finalTubes;
 }
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** 指定广告渠道（见 src/ad-network），未设置时运行时检测 */
+    readonly VITE_AD_NETWORK?: string;
+}